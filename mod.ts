@@ -6,8 +6,69 @@
  */
 
 export { i18n } from "./src/plugin.ts";
-export { translate, createNamespacedTranslator } from "./src/translator.ts";
+export { createNamespacedTranslator, translate } from "./src/translator.ts";
 export { findLocalesDirectory, getEffectiveLocalesDir } from "./src/locales-finder.ts";
-export type { ClientLoadConfig, I18nOptions, TranslationState } from "./src/types.ts";
-export type { FallbackConfig } from "./src/plugin.ts";
-export type { TranslationConfig } from "./src/translator.ts";
+export { createTranslationCache } from "./src/translation-cache.ts";
+export { generateTranslationTypes, writeTranslationTypes } from "./src/typegen.ts";
+export { checkCatalogs, formatCheckReport } from "./src/catalog-check.ts";
+export { TranslationFileError } from "./src/file-diagnostics.ts";
+export { findKeyUsage, formatKeyUsageReport, scanProject, scanSource } from "./src/key-scanner.ts";
+export { buildNamespaceManifest, writeNamespaceManifest } from "./src/namespace-manifest.ts";
+export { Trans } from "./src/trans.ts";
+export { createFormatter } from "./src/formatters.ts";
+export type {
+  ClientLoadConfig,
+  I18nBaseState,
+  I18nOptions,
+  TranslationState,
+} from "./src/types.ts";
+export type { FallbackConfig, HotReloadConfig, I18nMiddleware } from "./src/plugin.ts";
+export type {
+  DetectedLocale,
+  DetectionConfig,
+  DetectionStrategy,
+  LocaleCookieConfig,
+  LocaleDetector,
+} from "./src/locale-detection.ts";
+export type { RoutingConfig } from "./src/locale-routing.ts";
+export type {
+  ResolvedTranslations,
+  TranslationCache,
+  TranslationCacheOptions,
+} from "./src/translation-cache.ts";
+export type {
+  KeyParamsArgs,
+  KeyPrefix,
+  NamespaceKeys,
+  NamespaceParams,
+  RichTextComponents,
+  TranslateCall,
+  TranslateFunction,
+  TranslateMethods,
+  TranslationConfig,
+  TranslationParams,
+} from "./src/translator.ts";
+export type { TransComponent, TransProps } from "./src/trans.ts";
+export type { DateInput, FormatOption, FormatPresets, Formatter } from "./src/formatters.ts";
+export type { TypegenOptions } from "./src/typegen.ts";
+export type { TranslationFileLoader, TranslationLoaders } from "./src/file-loaders.ts";
+export type { TranslationFileIssue } from "./src/file-diagnostics.ts";
+export type {
+  CatalogCheckOptions,
+  CatalogCheckReport,
+  CatalogIssue,
+  CatalogIssueType,
+} from "./src/catalog-check.ts";
+export type {
+  DynamicKey,
+  KeyUsageOptions,
+  KeyUsageReport,
+  ScannedKey,
+  ScanOptions,
+  ScanResult,
+} from "./src/key-scanner.ts";
+export type {
+  ManifestOptions,
+  ManifestResult,
+  NamespaceManifest,
+} from "./src/namespace-manifest.ts";
@@ -0,0 +1,361 @@
+import { join, relative } from "@std/path";
+import { getMessageParams, isIcuMessage, parseMessage } from "./message-format.ts";
+import { resolveLoaders, type TranslationLoaders } from "./file-loaders.ts";
+import { TranslationFileError } from "./file-diagnostics.ts";
+import { discoverTranslationFiles, parseTranslationFile } from "./translation-loader.ts";
+
+/**
+ * Kind of problem found in the locale catalogs.
+ * - "missing-locale": a locale in `languages` has no folder
+ * - "invalid-file": a file can't be read or parsed, has duplicate keys or a non-object root
+ * - "empty-file": a file has no translations
+ * - "collision": two files map to the same namespace, or define the same flattened key
+ * - "missing-key": a key of the default locale is not translated
+ * - "extra-key": a key doesn't exist in the default locale
+ * - "type-mismatch": a value is null, or its type (string, number, boolean, array) differs
+ *   from the default locale
+ * - "invalid-message": a value with invalid ICU syntax
+ * - "placeholder-mismatch": a translation uses other placeholders than the default locale
+ */
+export type CatalogIssueType =
+  | "missing-locale"
+  | "invalid-file"
+  | "empty-file"
+  | "collision"
+  | "missing-key"
+  | "extra-key"
+  | "type-mismatch"
+  | "invalid-message"
+  | "placeholder-mismatch";
+
+/**
+ * A problem found in the locale catalogs.
+ */
+export interface CatalogIssue {
+  type: CatalogIssueType;
+  /** Errors make the check fail, warnings don't */
+  severity: "error" | "warning";
+  /** Locale the issue belongs to */
+  locale: string;
+  /** Translation key, when the issue is about a single key */
+  key?: string;
+  /** File the key lives in (or should live in), relative to `localesDir` */
+  file?: string;
+  /** 1-based line in `file`, for parse errors and duplicate keys */
+  line?: number;
+  /** 1-based column in `file` */
+  column?: number;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Options for checking the locale catalogs.
+ */
+export interface CatalogCheckOptions {
+  /** Path to the directory containing locale folders */
+  localesDir: string;
+  /** Reference locale every other locale is compared to */
+  defaultLanguage: string;
+  /**
+   * Locales to check.
+   * @default every folder in `localesDir`
+   */
+  languages?: string[];
+  /** Custom loaders keyed by file extension, merged with the built-in ones */
+  loaders?: TranslationLoaders;
+}
+
+/**
+ * Result of checking the locale catalogs.
+ */
+export interface CatalogCheckReport {
+  /** Checked locales, default locale first */
+  locales: string[];
+  /** Number of keys in the default locale */
+  keyCount: number;
+  issues: CatalogIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+const ISSUE_SEVERITY: Record<CatalogIssueType, "error" | "warning"> = {
+  "missing-locale": "error",
+  "invalid-file": "error",
+  "empty-file": "warning",
+  "collision": "error",
+  "missing-key": "error",
+  "extra-key": "warning",
+  "type-mismatch": "error",
+  "invalid-message": "error",
+  "placeholder-mismatch": "error",
+};
+
+/** A translation value and the file it comes from */
+interface CatalogEntry {
+  value: unknown;
+  file: string;
+}
+
+/**
+ * Collects every leaf of a translation file under dot-separated keys.
+ * Unlike `flattenObject()`, null leaves are kept so they can be reported.
+ */
+function collectLeaves(
+  obj: Record<string, unknown>,
+  prefix: string,
+  file: string,
+  entries: Map<string, CatalogEntry>,
+): void {
+  for (const [key, value] of Object.entries(obj)) {
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      collectLeaves(value as Record<string, unknown>, `${prefix}${key}.`, file, entries);
+    } else {
+      entries.set(`${prefix}${key}`, { value, file });
+    }
+  }
+}
+
+/**
+ * Describes the type of a translation value for messages.
+ */
+function getValueKind(value: unknown): string {
+  return Array.isArray(value) ? "array" : value === null ? "null" : typeof value;
+}
+
+/**
+ * Collects the strings of a value, including strings nested in arrays.
+ */
+function collectStrings(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(collectStrings);
+  if (value !== null && typeof value === "object") {
+    return Object.values(value).flatMap(collectStrings);
+  }
+  return [];
+}
+
+/**
+ * Lists the locale folders of a locales directory.
+ */
+async function listLocales(localesDir: string): Promise<string[]> {
+  const locales: string[] = [];
+  for await (const entry of Deno.readDir(localesDir)) {
+    if (entry.isDirectory) locales.push(entry.name);
+  }
+  return locales.sort();
+}
+
+/**
+ * Formats a placeholder list for messages.
+ */
+function formatPlaceholders(names: string[]): string {
+  return names.length > 0 ? names.map((name) => `{${name}}`).join(", ") : "none";
+}
+
+/**
+ * Loads the locale catalogs with the plugin's namespace rules and compares every locale
+ * with the default one.
+ *
+ * @param options - Check options
+ * @returns Every issue found, with error and warning counts
+ *
+ * @example
+ * ```typescript
+ * const report = await checkCatalogs({ localesDir: "./locales", defaultLanguage: "en" });
+ * if (report.errorCount > 0) console.log(formatCheckReport(report));
+ * ```
+ */
+export async function checkCatalogs(options: CatalogCheckOptions): Promise<CatalogCheckReport> {
+  const { localesDir, defaultLanguage } = options;
+  const loaders = resolveLoaders(options.loaders);
+  const issues: CatalogIssue[] = [];
+  const report = (type: CatalogIssueType, issue: Omit<CatalogIssue, "type" | "severity">) => {
+    issues.push({ type, severity: ISSUE_SEVERITY[type], ...issue });
+  };
+
+  const languages = options.languages ?? await listLocales(localesDir);
+  const locales = [defaultLanguage, ...languages.filter((locale) => locale !== defaultLanguage)];
+
+  const loadCatalog = async (locale: string) => {
+    const localeDir = join(localesDir, locale);
+    try {
+      if (!(await Deno.stat(localeDir)).isDirectory) throw new Error("Not a directory");
+    } catch {
+      report("missing-locale", { locale, message: `No folder for locale at ${localeDir}` });
+      return null;
+    }
+
+    const entries = new Map<string, CatalogEntry>();
+    const files = await discoverTranslationFiles(
+      localeDir,
+      localeDir,
+      loaders,
+      (namespace, filePath, otherFilePath) => {
+        report("collision", {
+          locale,
+          file: relative(localesDir, filePath),
+          message: `Namespace "${namespace}" is also defined by ${
+            relative(localesDir, otherFilePath)
+          }`,
+        });
+      },
+    );
+
+    // Same order as the loader, so the same file wins a key collision
+    for (const [namespace, filePath] of [...files].sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0)) {
+      const file = relative(localesDir, filePath);
+      let data: Record<string, unknown>;
+      try {
+        data = await parseTranslationFile(filePath, loaders, true);
+      } catch (error) {
+        const issues = error instanceof TranslationFileError
+          ? error.issues
+          : [{ filePath, message: String(error) }];
+        for (const { message, line, column } of issues) {
+          report("invalid-file", { locale, file, line, column, message });
+        }
+        continue;
+      }
+
+      const fileEntries = new Map<string, CatalogEntry>();
+      collectLeaves(data, `${namespace}.`, file, fileEntries);
+      if (fileEntries.size === 0) {
+        report("empty-file", { locale, file, message: "File has no translations" });
+      }
+
+      for (const [key, entry] of fileEntries) {
+        const existing = entries.get(key);
+        if (existing) {
+          report("collision", {
+            locale,
+            key,
+            file,
+            message: `Key is also defined in ${existing.file}`,
+          });
+        }
+        entries.set(key, entry);
+      }
+    }
+    return entries;
+  };
+
+  const reference = await loadCatalog(defaultLanguage);
+
+  for (const locale of locales) {
+    const catalog = locale === defaultLanguage ? reference : await loadCatalog(locale);
+    if (!catalog) continue;
+
+    for (const [key, { value, file }] of catalog) {
+      if (value === null) {
+        report("type-mismatch", { locale, key, file, message: "Value is null" });
+        continue;
+      }
+
+      const invalid = collectStrings(value).some((message) => {
+        if (!isIcuMessage(message)) return false;
+        try {
+          parseMessage(message);
+          return false;
+        } catch (error) {
+          report("invalid-message", { locale, key, file, message: (error as Error).message });
+          return true;
+        }
+      });
+      if (invalid) continue;
+
+      if (locale === defaultLanguage || !reference) continue;
+
+      const expected = reference.get(key);
+      if (!expected) {
+        report("extra-key", {
+          locale,
+          key,
+          file,
+          message: `Key is not in the default locale (${defaultLanguage})`,
+        });
+        continue;
+      }
+
+      const expectedKind = getValueKind(expected.value);
+      if (expectedKind !== getValueKind(value)) {
+        report("type-mismatch", {
+          locale,
+          key,
+          file,
+          message: `Value is ${getValueKind(value)}, ${defaultLanguage} has ${expectedKind}`,
+        });
+        continue;
+      }
+
+      if (typeof expected.value !== "string" || typeof value !== "string") continue;
+      const expectedParams = [...getMessageParams(expected.value).keys()].sort();
+      const actualParams = [...getMessageParams(value).keys()].sort();
+      if (expectedParams.join() !== actualParams.join()) {
+        report("placeholder-mismatch", {
+          locale,
+          key,
+          file,
+          message: `Placeholders differ from ${defaultLanguage}: expected ` +
+            `${formatPlaceholders(expectedParams)}, found ${formatPlaceholders(actualParams)}`,
+        });
+      }
+    }
+
+    if (locale === defaultLanguage || !reference) continue;
+
+    for (const [key, { file }] of reference) {
+      if (!catalog.has(key)) {
+        report("missing-key", {
+          locale,
+          key,
+          file: join(locale, relative(defaultLanguage, file)),
+          message: `Missing translation (${defaultLanguage} has it)`,
+        });
+      }
+    }
+  }
+
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+  return {
+    locales,
+    keyCount: reference?.size ?? 0,
+    issues,
+    errorCount,
+    warningCount: issues.length - errorCount,
+  };
+}
+
+/**
+ * Formats a check report for the terminal, grouping issues by locale.
+ * @param report - Result of `checkCatalogs()`
+ * @returns Human-readable report
+ */
+export function formatCheckReport(report: CatalogCheckReport): string {
+  const lines = [
+    `🔍 Checked ${report.locales.length} locales (${report.locales.join(", ")}), ` +
+    `${report.keyCount} keys in ${report.locales[0]}`,
+  ];
+
+  for (const locale of report.locales) {
+    const issues = report.issues.filter((issue) => issue.locale === locale);
+    if (issues.length === 0) continue;
+
+    lines.push("", `${locale}:`);
+    for (const issue of issues) {
+      const icon = issue.severity === "error" ? "❌" : "⚠️ ";
+      const target = issue.key ? `"${issue.key}": ` : "";
+      const position = issue.line ? `:${issue.line}${issue.column ? `:${issue.column}` : ""}` : "";
+      const location = issue.file ? ` (${issue.file}${position})` : "";
+      lines.push(`  ${icon} [${issue.type}] ${target}${issue.message}${location}`);
+    }
+  }
+
+  lines.push(
+    "",
+    report.issues.length === 0
+      ? "✅ No issues found"
+      : `${report.errorCount} error(s), ${report.warningCount} warning(s)`,
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,141 @@
+/**
+ * Command line tools for locale catalogs.
+ *
+ * @example
+ * ```sh
+ * # Report missing/extra keys, mismatched value types and placeholder mismatches
+ * deno run --allow-read jsr:@xiayun/fresh-i18n/cli check --default en
+ *
+ * # Same report as JSON
+ * deno run --allow-read jsr:@xiayun/fresh-i18n/cli check --json
+ *
+ * # Find unused keys and keys missing from the catalog in routes/, islands/ and components/
+ * deno run --allow-read jsr:@xiayun/fresh-i18n/cli scan --json
+ *
+ * # Generate TranslationKey types from the default locale
+ * deno run --allow-read --allow-write jsr:@xiayun/fresh-i18n/cli types --out ./i18n.d.ts
+ *
+ * # Map each route to the namespaces its islands use, for `clientLoad.manifest`
+ * deno run --allow-read --allow-write jsr:@xiayun/fresh-i18n/cli manifest --out ./i18n-manifest.json
+ * ```
+ *
+ * @module
+ */
+
+import { parseArgs } from "@std/cli/parse-args";
+import { checkCatalogs, formatCheckReport } from "./catalog-check.ts";
+import { findKeyUsage, formatKeyUsageReport } from "./key-scanner.ts";
+import { findLocalesDirectory } from "./locales-finder.ts";
+import { writeNamespaceManifest } from "./namespace-manifest.ts";
+import { writeTranslationTypes } from "./typegen.ts";
+
+const USAGE = `Usage: fresh-i18n <command> [options]
+
+Commands:
+  check   Compare every locale with the default one (exits with 1 on errors)
+  scan    Find unused, undeclared and dynamic keys in the source (exits with 1 on undeclared keys)
+  types   Generate a .d.ts with the TranslationKey union of the default locale
+  manifest
+          Map each route to the namespaces its islands use (JSON for clientLoad.manifest)
+
+Options:
+  --locales-dir <path>   Locales directory (default: auto-detected)
+  --default <locale>     Default locale (default: en)
+  --languages <list>     Comma-separated locales to check (default: every folder)
+  --root <path>          Project root for "scan" and "manifest" (default: .)
+  --dirs <list>          Comma-separated directories for "scan" (default: routes,islands,components)
+  --json                 Print the report as JSON
+  --out <path>           Output file for "types" (default: ./i18n.d.ts)
+                         and "manifest" (default: ./i18n-manifest.json)
+  --help                 Show this message`;
+
+/**
+ * Splits a comma-separated option value.
+ */
+function splitList(value: string | undefined): string[] | undefined {
+  return value?.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Runs the CLI.
+ * @param args - Command line arguments (without the program name)
+ * @returns The process exit code
+ */
+export async function main(args: string[]): Promise<number> {
+  const flags = parseArgs(args, {
+    string: ["locales-dir", "default", "languages", "out", "root", "dirs"],
+    boolean: ["json", "help"],
+    default: { default: "en" },
+  });
+  const command = flags._[0];
+
+  if (flags.help || !command) {
+    console.log(USAGE);
+    return flags.help ? 0 : 1;
+  }
+
+  // Reads source files only, so it doesn't need the locales directory
+  if (command === "manifest") {
+    const outFile = flags.out ?? "./i18n-manifest.json";
+    const { manifest, unresolved, written } = await writeNamespaceManifest({
+      rootDir: flags.root,
+      outFile,
+    });
+    for (const { expression, file, line, column } of unresolved) {
+      console.warn(`⚠️  ${file}:${line}:${column} t(${expression}) has no static namespace`);
+    }
+    const routeCount = Object.keys(manifest.routes).length;
+    console.log(
+      written ? `✅ Wrote ${outFile} (${routeCount} routes)` : `✅ ${outFile} is up to date`,
+    );
+    return 0;
+  }
+
+  const localesDir = flags["locales-dir"] ?? await findLocalesDirectory();
+  if (!localesDir) {
+    console.error("❌ Could not find a locales directory, pass --locales-dir");
+    return 1;
+  }
+
+  switch (command) {
+    case "check": {
+      const report = await checkCatalogs({
+        localesDir,
+        defaultLanguage: flags.default,
+        languages: splitList(flags.languages),
+      });
+      console.log(flags.json ? JSON.stringify(report, null, 2) : formatCheckReport(report));
+      return report.errorCount > 0 ? 1 : 0;
+    }
+
+    case "scan": {
+      const report = await findKeyUsage({
+        localesDir,
+        defaultLanguage: flags.default,
+        rootDir: flags.root,
+        dirs: splitList(flags.dirs),
+      });
+      console.log(flags.json ? JSON.stringify(report, null, 2) : formatKeyUsageReport(report));
+      return report.undeclared.length > 0 ? 1 : 0;
+    }
+
+    case "types": {
+      const outFile = flags.out ?? "./i18n.d.ts";
+      const written = await writeTranslationTypes({
+        localesDir,
+        defaultLanguage: flags.default,
+        outFile,
+      });
+      console.log(written ? `✅ Wrote ${outFile}` : `✅ ${outFile} is up to date`);
+      return 0;
+    }
+
+    default:
+      console.error(`❌ Unknown command "${command}"\n\n${USAGE}`);
+      return 1;
+  }
+}
+
+if (import.meta.main) {
+  Deno.exit(await main(Deno.args));
+}
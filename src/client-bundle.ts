@@ -0,0 +1,142 @@
+import { findSupportedLocale } from "./locale-negotiation.ts";
+import { NAMESPACE_ENDPOINT_PATH, NAMESPACE_PATTERN } from "./namespace-endpoint.ts";
+import type { ClientTranslationData } from "./types.ts";
+
+/**
+ * Id of the JSON data block emitted with `clientLoad.inject: "json"`. It differs from the
+ * `__I18N__` global because element ids also become `window` properties.
+ */
+export const CLIENT_DATA_ELEMENT_ID = "__I18N_DATA__";
+
+/**
+ * Script assigning `window.__I18N__`, served at a URL that includes its content hash.
+ */
+export interface ClientBundle {
+  /** Hex SHA-256 prefix of the body */
+  hash: string;
+  /** JavaScript source */
+  body: string;
+}
+
+// Bundles per full translation data (replaced when locale files change) and namespace set
+const bundleCache = new WeakMap<object, Map<string, Promise<ClientBundle>>>();
+// Namespace sets kept per source; bundle URLs name their set, so clients can ask for new ones
+const MAX_BUNDLES_PER_SOURCE = 100;
+
+/**
+ * Serializes client translation data (or other injected data) as JSON that is safe inside a
+ * `<script>` element.
+ * @param data - Data to serialize
+ * @returns JSON with `<` and `>` escaped
+ */
+export function serializeClientData(data: object): string {
+  // Escape JSON for safe injection (prevent XSS)
+  return JSON.stringify(data).replace(/</g, "\\u003c").replace(/>/g, "\\u003e");
+}
+
+/**
+ * Builds the bundle of the given client data. Bundles are cached until the translations they
+ * were extracted from change, so hashes only change when locale files do. The least recently
+ * used namespace sets are dropped past 100 per source.
+ *
+ * @param data - Data injected for a locale and namespace set
+ * @param source - Full translation data of the locale the data was extracted from
+ * @returns The bundle and its hash
+ *
+ * @example
+ * ```typescript
+ * const { hash } = await getClientBundle(clientData, translations.data);
+ * getBundleUrl(clientData.locale, clientData.namespaces ?? [], hash);
+ * // "/_i18n/es/bundle.3f2a9c1d0b7e4a55.js?ns=common"
+ * ```
+ */
+export function getClientBundle(
+  data: ClientTranslationData,
+  source: object,
+): Promise<ClientBundle> {
+  let bundles = bundleCache.get(source);
+  if (!bundles) {
+    bundles = new Map();
+    bundleCache.set(source, bundles);
+  }
+
+  const cacheKey = (data.namespaces ?? []).join(",");
+  let bundle = bundles.get(cacheKey);
+  if (bundle) {
+    // Move to the end: Map order is the eviction order
+    bundles.delete(cacheKey);
+  } else {
+    bundle = createClientBundle(data);
+    if (bundles.size >= MAX_BUNDLES_PER_SOURCE) {
+      bundles.delete(bundles.keys().next().value!);
+    }
+  }
+  bundles.set(cacheKey, bundle);
+  return bundle;
+}
+
+async function createClientBundle(data: ClientTranslationData): Promise<ClientBundle> {
+  const body = `window.__I18N__=${serializeClientData(data)};\n`;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body));
+  const hash = Array.from(new Uint8Array(digest).subarray(0, 8))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return { hash, body };
+}
+
+/**
+ * Builds the URL of a bundle.
+ * @param locale - Locale code
+ * @param namespaces - Namespaces of the bundle; empty for every namespace
+ * @param hash - Content hash of the bundle
+ * @returns The bundle URL (e.g., "/_i18n/es/bundle.3f2a9c1d0b7e4a55.js?ns=common,features")
+ */
+export function getBundleUrl(locale: string, namespaces: string[], hash: string): string {
+  const query = namespaces.length > 0 ? `?ns=${namespaces.map(encodeURIComponent).join(",")}` : "";
+  return `${NAMESPACE_ENDPOINT_PATH}/${encodeURIComponent(locale)}/bundle.${hash}.js${query}`;
+}
+
+// Bundle paths: /_i18n/{locale}/bundle.{hash}.js
+const BUNDLE_PATH_PATTERN = new RegExp(
+  `^${NAMESPACE_ENDPOINT_PATH}/([^/]+)/bundle\\.([0-9a-f]+)\\.js$`,
+);
+
+/**
+ * Checks whether a path has the shape of a bundle URL, whatever its locale.
+ * @param pathname - Request path
+ * @returns true for paths like "/_i18n/es/bundle.3f2a9c1d.js"
+ */
+export function isBundlePath(pathname: string): boolean {
+  return BUNDLE_PATH_PATTERN.test(pathname);
+}
+
+/**
+ * Reads the locale, namespaces and hash of a bundle request.
+ * @param url - Request URL
+ * @param languages - Supported locales
+ * @returns The bundle details, or null if the URL isn't a bundle of a supported locale and
+ * valid namespaces
+ * @example
+ * parseBundleUrl(new URL("http://x/_i18n/es/bundle.3f2a9c1d.js?ns=common"), ["en", "es"])
+ * // { locale: "es", namespaces: ["common"], hash: "3f2a9c1d" }
+ */
+export function parseBundleUrl(
+  url: URL,
+  languages: string[],
+): { locale: string; namespaces: string[]; hash: string } | null {
+  const match = BUNDLE_PATH_PATTERN.exec(url.pathname);
+  if (!match) return null;
+
+  let locale: string | null;
+  try {
+    locale = findSupportedLocale(decodeURIComponent(match[1]), languages);
+  } catch {
+    // Malformed escape sequence (e.g., "%E0")
+    return null;
+  }
+  if (!locale) return null;
+
+  const namespaces = url.searchParams.get("ns")?.split(",").filter(Boolean) ?? [];
+  if (!namespaces.every((namespace) => NAMESPACE_PATTERN.test(namespace))) return null;
+  return { locale, namespaces, hash: match[2] };
+}
@@ -7,25 +7,356 @@
  * @module
  */
 
-import { translate, createNamespacedTranslator, type TranslationConfig } from "./translator.ts";
+import { computed, type ReadonlySignal, signal } from "@preact/signals";
+import { useEffect } from "preact/hooks";
+import {
+  createNamespacedTranslator,
+  type TranslateFunction,
+  translate,
+  type TranslationConfig,
+} from "./translator.ts";
+import { createFormatter, type Formatter } from "./formatters.ts";
+import { formatLocaleCookie } from "./locale-detection.ts";
+import { findSupportedLocale } from "./locale-negotiation.ts";
+import { switchLocalePath } from "./locale-routing.ts";
+import { getNamespaceUrl, isNamespaceLoaded } from "./namespace-endpoint.ts";
+import { getRequestTranslationData } from "./request-data.ts";
+import { CLIENT_DATA_ELEMENT_ID } from "./client-bundle.ts";
+import {
+  type ClientDiagnostics,
+  DIAGNOSTICS_ELEMENT_ID,
+  findMissingKeyNamespace,
+  formatMissingKeyMessage,
+  MISSING_KEY_REPORT_PATH,
+  type MissingKeyReport,
+} from "./dev-diagnostics.ts";
+import type { ClientTranslationData } from "./types.ts";
 
 export { createNamespacedTranslator };
+export { Trans } from "./trans.ts";
+export type { TransComponent, TransProps } from "./trans.ts";
+export type { DateInput, FormatOption, Formatter, FormatPresets } from "./formatters.ts";
+export type { ClientTranslationData } from "./types.ts";
+export type {
+  KeyParamsArgs,
+  NamespaceKeys,
+  NamespaceParams,
+  RichTextComponents,
+  TranslateFunction,
+  TranslationParams,
+} from "./translator.ts";
+
+// Bumped whenever translations change; hooks read it so islands re-render
+const translationsVersion = signal(0);
+const loadingState = signal(false);
+
+// Requests in flight, so islands asking for the same namespace share one fetch
+const pendingNamespaces = new Map<string, Promise<void>>();
+// Identifies the latest setLocale() call, so an earlier one finishing late doesn't win
+let localeSwitch = 0;
+
+/**
+ * Reactive view of the client locale, based on Preact signals.
+ */
+export interface LocaleStore {
+  /** Current locale; components reading it re-render when `setLocale()` switches */
+  readonly locale: ReadonlySignal<string>;
+  /** True while `setLocale()` fetches the translations of the new locale */
+  readonly loading: ReadonlySignal<boolean>;
+}
+
+// Locale of the page's translation data, updated by setLocale()
+const browserLocale = computed(() => {
+  void translationsVersion.value;
+  return getTranslationData()?.locale ?? "en";
+});
+
+/**
+ * The client locale store.
+ *
+ * @example
+ * ```tsx
+ * import { localeStore } from "@xiayun/fresh-i18n/client";
+ *
+ * export default function LocaleBadge() {
+ *   return <span aria-busy={localeStore.loading.value}>{localeStore.locale.value}</span>;
+ * }
+ * ```
+ */
+export const localeStore: LocaleStore = {
+  get locale() {
+    // On the server, the locale of the request being rendered: request data isn't a signal,
+    // so a shared computed would keep the first request's locale
+    const requestData = getRequestTranslationData();
+    return requestData ? signal(requestData.locale) : browserLocale;
+  },
+  loading: computed(() => loadingState.value),
+};
 
 /**
- * Interface for i18n data injected into global scope.
+ * Options for `setLocale()`.
  */
-interface I18nGlobalData {
-  translations: Record<string, unknown>;
-  locale: string;
-  defaultLocale: string;
+export interface SetLocaleOptions {
+  /**
+   * Rewrite the locale prefix of the URL (with `history.replaceState`), following the
+   * `routing` option. Without routing, only URLs that already have a prefix change.
+   * @default true
+   */
+  updateUrl?: boolean;
+  /**
+   * Persist the locale in the detection cookie.
+   * @default true when detection persists the locale (the "cookie" strategy is used)
+   */
+  persist?: boolean;
+}
+
+/**
+ * Switches the locale without reloading the page: fetches the injected namespaces for the
+ * new locale, swaps them and re-renders every island using the hooks.
+ * Requires `clientLoad.endpoint: true`.
+ *
+ * @param locale - Locale to switch to
+ * @param options - URL and cookie updates
+ * @returns Resolves once the new translations are in use
+ * @throws Error if the locale isn't supported, the endpoint is not available or a request fails
+ *
+ * @example
+ * ```tsx
+ * import { localeStore, setLocale } from "@xiayun/fresh-i18n/client";
+ *
+ * export default function LanguagePicker() {
+ *   return (
+ *     <select
+ *       value={localeStore.locale.value}
+ *       onChange={(e) => setLocale(e.currentTarget.value)}
+ *     >
+ *       <option value="en">English</option>
+ *       <option value="es">Español</option>
+ *     </select>
+ *   );
+ * }
+ * ```
+ */
+export async function setLocale(locale: string, options: SetLocaleOptions = {}): Promise<void> {
+  const data = getEndpointData();
+  const target = data.languages ? findSupportedLocale(locale, data.languages) : locale;
+  if (!target) {
+    throw new Error(`Unsupported locale "${locale}"`);
+  }
+  // Cancels a switch still loading, also when switching back to the current locale
+  const id = ++localeSwitch;
+  if (target === data.locale) {
+    loadingState.value = false;
+    return;
+  }
+
+  // Every injected namespace, or the top-level ones when everything was injected
+  const namespaces = data.namespaces?.length
+    ? data.namespaces
+    : [...new Set(Object.keys(data.translations).map((key) => key.split(".")[0]))];
+
+  loadingState.value = true;
+  try {
+    const parts = await Promise.all(
+      namespaces.map((namespace) => fetchNamespaceData(target, namespace, true)),
+    );
+    if (id !== localeSwitch) return;
+
+    data.translations = Object.assign({}, ...parts);
+    data.locale = target;
+  } finally {
+    if (id === localeSwitch) loadingState.value = false;
+  }
+
+  if (typeof document !== "undefined") {
+    document.documentElement.lang = target;
+    if (options.persist ?? data.cookie !== undefined) {
+      document.cookie = formatLocaleCookie(target, data.cookie);
+    }
+  }
+  if ((options.updateUrl ?? true) && typeof location !== "undefined") {
+    const pathname = switchLocalePath(
+      location.pathname,
+      target,
+      data.languages ?? [],
+      data.defaultLocale,
+      data.routing,
+    );
+    if (pathname !== location.pathname) {
+      history.replaceState(history.state, "", `${pathname}${location.search}${location.hash}`);
+    }
+  }
+
+  translationsVersion.value++;
+}
+
+/**
+ * Fetches namespaces that weren't injected into the page and merges them into the
+ * translation data. Namespaces already available (or being fetched) are not requested again.
+ * Requires `clientLoad.endpoint: true`.
+ *
+ * @param namespaces - Dot-separated namespaces (e.g., ["features.reports"])
+ * @returns Resolves once every namespace is available
+ * @throws Error if translation data or the endpoint is not available, or a request fails
+ *
+ * @example
+ * ```tsx
+ * await loadNamespaces(["features.reports"]);
+ * setOpen(true); // The modal can now use t("features.reports.title")
+ * ```
+ */
+export async function loadNamespaces(namespaces: string[]): Promise<void> {
+  const data = getEndpointData();
+  const loaded = data.namespaces ?? [];
+
+  await Promise.all(
+    namespaces
+      .filter((namespace) => !isNamespaceLoaded(loaded, namespace))
+      .map((namespace) => {
+        const cacheKey = `${data.locale}\u0000${namespace}`;
+        let pending = pendingNamespaces.get(cacheKey);
+        if (!pending) {
+          pending = fetchNamespace(data, namespace).finally(() => {
+            pendingNamespaces.delete(cacheKey);
+          });
+          pendingNamespaces.set(cacheKey, pending);
+        }
+        return pending;
+      }),
+  );
+}
+
+/**
+ * Returns the injected data, ensuring the namespace endpoint is enabled.
+ */
+function getEndpointData(): ClientTranslationData {
+  const data = getTranslationData();
+  if (!data?.endpoint) {
+    throw new Error(
+      "Namespace endpoint not available. " +
+        "Make sure clientLoad is configured with endpoint: true.",
+    );
+  }
+  return data;
+}
+
+/**
+ * Fetches the translations of a namespace from the endpoint.
+ * @param optional - Treat a namespace missing from the locale as empty instead of failing
+ */
+async function fetchNamespaceData(
+  locale: string,
+  namespace: string,
+  optional = false,
+): Promise<Record<string, unknown>> {
+  const response = await fetch(getNamespaceUrl(locale, namespace));
+  if (optional && response.status === 404) {
+    await response.body?.cancel();
+    return {};
+  }
+  if (!response.ok) {
+    throw new Error(`Could not load namespace "${namespace}" (${response.status})`);
+  }
+  return await response.json();
+}
+
+/**
+ * Fetches a namespace and merges it into the translation data.
+ */
+async function fetchNamespace(data: ClientTranslationData, namespace: string): Promise<void> {
+  const locale = data.locale;
+  const translations = await fetchNamespaceData(locale, namespace);
+  // The locale changed while fetching
+  if (data.locale !== locale) return;
+
+  Object.assign(data.translations, translations);
+  data.namespaces = [...(data.namespaces ?? []), namespace];
+  translationsVersion.value++;
+}
+
+// Missing keys already reported to the server log
+const reportedKeys = new Set<string>();
+
+/**
+ * Reads the diagnostics the middleware injects in development.
+ */
+function getDiagnostics(): ClientDiagnostics | null {
+  const element = document.getElementById(DIAGNOSTICS_ELEMENT_ID);
+  return element?.textContent ? JSON.parse(element.textContent) as ClientDiagnostics : null;
+}
+
+/**
+ * Warns about a missing key in the browser. With diagnostics, the warning names the namespace
+ * that wasn't injected for the route, and the key is reported once to the server log.
+ */
+function reportMissingKey(key: string, data: ClientTranslationData): void {
+  const diagnostics = getDiagnostics();
+  if (!diagnostics) {
+    console.warn(`❌ Missing translation key: "${key}" [locale: ${data.locale}]`);
+    return;
+  }
+
+  const report: MissingKeyReport = {
+    key,
+    locale: data.locale,
+    path: diagnostics.path,
+    patterns: diagnostics.patterns,
+    namespace: findMissingKeyNamespace(key, diagnostics, data.namespaces ?? []),
+  };
+  console.warn(`❌ ${formatMissingKeyMessage(report)}`);
+
+  const reportKey = `${data.locale}:${key}`;
+  if (reportedKeys.has(reportKey)) return;
+  reportedKeys.add(reportKey);
+  fetch(MISSING_KEY_REPORT_PATH, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(report),
+    keepalive: true,
+  }).catch(() => {
+    // Reporting is best effort; the console already has the details
+  });
+}
+
+/**
+ * Reads the injected data. Components calling it re-render when translations change.
+ */
+function useTranslationData(): ClientTranslationData | undefined {
+  void translationsVersion.value;
+  return getTranslationData();
+}
+
+/**
+ * Loads missing namespaces after the first render. The island renders again once they
+ * arrive, through the translations signal.
+ */
+function useNamespaces(
+  data: ClientTranslationData | undefined,
+  namespaces: string[] | undefined,
+): void {
+  const missing = data && namespaces
+    ? namespaces.filter((namespace) => !isNamespaceLoaded(data.namespaces ?? [], namespace))
+    : [];
+  const missingKey = `${data?.locale}:${missing.join(",")}`;
+
+  useEffect(() => {
+    if (missing.length === 0) return;
+    loadNamespaces(missing).catch((error) => {
+      console.error("❌ Failed to load translations:", error);
+    });
+  }, [missingKey]);
 }
 
 /**
  * Hook to access translations in client-side islands.
  * Must be used with the clientLoad configuration in the i18n plugin.
  * 
- * @returns Translation function (same API as server-side `state.t`)
- * @throws Error if called server-side or if translation data is not available
+ * @param namespaces - Namespaces the island needs that may not be injected into the page.
+ *   Missing ones are fetched after the first render, which renders again once they arrive.
+ *   Pass the same list on every render.
+ * @returns Translation function (same API as server-side `state.t`). During server rendering
+ *   it translates with the request's data, so the markup matches the hydrated island.
+ * @throws Error if translation data is not available in the browser
  * 
  * @example
  * ```tsx
@@ -39,18 +370,37 @@ interface I18nGlobalData {
  *     <div>
  *       <h1>{t("features.indicators.title")}</h1>
  *       <button>{t("common.actions.save")}</button>
+ *       <p>{t("common.greeting", { name: "Ana" })}</p>
  *     </div>
  *   );
  * }
+ *
+ * // Type-checked keys and params generated by `writeTranslationTypes()`
+ * const t = useTranslation<TranslationKey, TranslationKeyParams>();
+ *
+ * // Fetch a namespace that isn't injected on every page
+ * const t = useTranslation(["features.reports"]);
  * ```
  */
-export function useTranslation(): (key: string) => string {
-  const data = (globalThis as unknown as { __I18N__?: I18nGlobalData }).__I18N__;
+export function useTranslation<
+  Key extends string = string,
+  Params extends object = Record<never, never>,
+>(
+  namespaces?: string[],
+): TranslateFunction<Key, Params> {
+  const data = useTranslationData();
+  // Called on every render, as hooks must be; it does nothing without data or namespaces
+  useNamespaces(data, namespaces);
 
   if (!data) {
-    // If on server (SSR), return a passthrough translator to avoid crashing
+    // Rendered on the server outside of an i18n request: return a passthrough translator
     if (typeof document === "undefined") {
-      return (key: string) => `[${key}]`;
+      const passthrough: TranslateFunction = Object.assign((key: string) => `[${key}]`, {
+        list: <Item>() => [] as Item[],
+        raw: <Value>() => undefined as Value,
+        rich: (key: string) => [`[${key}]`],
+      });
+      return passthrough as TranslateFunction<Key, Params>;
     }
 
     throw new Error(
@@ -63,16 +413,20 @@ export function useTranslation(): (key: string) => string {
   const config: TranslationConfig = {
     locale: data.locale,
     defaultLocale: data.defaultLocale,
+    formats: data.formats,
+    onMissingKey: typeof document === "undefined"
+      ? undefined
+      : (key) => reportMissingKey(key, data),
   };
 
-  return translate(data.translations, config);
+  return translate(data.translations, config) as TranslateFunction<Key, Params>;
 }
 
 /**
  * Gets the current locale from injected translation data.
  * 
- * @returns Current locale string (e.g., "en", "es")
- * @throws Error if called server-side or if translation data is not available
+ * @returns Current locale string (e.g., "en", "es"); the request's locale during server rendering
+ * @throws Error if translation data is not available in the browser
  * 
  * @example
  * ```tsx
@@ -85,10 +439,10 @@ export function useTranslation(): (key: string) => string {
  * ```
  */
 export function useLocale(): string {
-  const data = (globalThis as unknown as { __I18N__?: I18nGlobalData }).__I18N__;
+  const data = useTranslationData();
 
   if (!data) {
-    // Return a dummy locale during SSR
+    // Return a dummy locale when rendered on the server outside of an i18n request
     if (typeof document === "undefined") {
       return "en"; 
     }
@@ -102,11 +456,47 @@ export function useLocale(): string {
   return data.locale;
 }
 
+/**
+ * Hook to format numbers, dates and lists in client-side islands.
+ * Uses the injected locale and the `formats` presets of the plugin options.
+ *
+ * @returns Formatter bound to the current locale (same API as server-side `state.fmt`)
+ * @throws Error if translation data is not available in the browser
+ *
+ * @example
+ * ```tsx
+ * import { useFormatter } from "@xiayun/fresh-i18n/client";
+ *
+ * export default function Price({ amount }: { amount: number }) {
+ *   const fmt = useFormatter();
+ *   return <span>{fmt.number(amount, "currency")}</span>;
+ * }
+ * ```
+ */
+export function useFormatter(): Formatter {
+  const data = useTranslationData();
+
+  if (!data) {
+    // Use the same dummy locale as useLocale() outside of an i18n request
+    if (typeof document === "undefined") {
+      return createFormatter("en");
+    }
+
+    throw new Error(
+      "Translation data not found. " +
+        "Make sure you have configured clientLoad in your i18n plugin options.",
+    );
+  }
+
+  return createFormatter(data.locale, data.formats);
+}
+
 /**
  * Advanced: Access raw translation data object.
  * Useful for creating custom translation utilities or debugging.
  * 
- * @returns Complete injected translation data, or undefined if not available
+ * @returns Complete injected translation data, or undefined if not available.
+ *   During server rendering, the data that will be injected for the current request.
  * 
  * @example
  * ```tsx
@@ -118,10 +508,22 @@ export function useLocale(): string {
  * }
  * ```
  */
-export function getTranslationData(): I18nGlobalData | undefined {
+export function getTranslationData(): ClientTranslationData | undefined {
   if (typeof globalThis === "undefined") {
     return undefined;
   }
 
-  return (globalThis as unknown as { __I18N__?: I18nGlobalData }).__I18N__;
+  // On the server, the data of the request being rendered
+  const requestData = getRequestTranslationData();
+  if (requestData) return requestData;
+
+  const global = globalThis as unknown as { __I18N__?: ClientTranslationData };
+  // Data emitted as a JSON block (`clientLoad.inject: "json"`) is parsed on first use
+  if (!global.__I18N__ && typeof document !== "undefined") {
+    const element = document.getElementById(CLIENT_DATA_ELEMENT_ID);
+    if (element?.textContent) {
+      global.__I18N__ = JSON.parse(element.textContent) as ClientTranslationData;
+    }
+  }
+  return global.__I18N__;
 }
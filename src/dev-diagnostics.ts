@@ -0,0 +1,128 @@
+import { isNamespaceLoaded, NAMESPACE_ENDPOINT_PATH } from "./namespace-endpoint.ts";
+
+/**
+ * Path islands post missing keys to in development, logged by the middleware.
+ */
+export const MISSING_KEY_REPORT_PATH = `${NAMESPACE_ENDPOINT_PATH}/missing`;
+
+/**
+ * Id of the JSON block carrying `ClientDiagnostics` in development.
+ */
+export const DIAGNOSTICS_ELEMENT_ID = "__I18N_DIAGNOSTICS__";
+
+/**
+ * Development details injected next to client translations, used to explain missing keys.
+ */
+export interface ClientDiagnostics {
+  /** Locale-stripped path the route patterns were matched against */
+  path: string;
+  /** `clientLoad` route patterns that matched the path */
+  patterns: string[];
+  /** Namespaces in the catalog that weren't injected */
+  available: string[];
+}
+
+/**
+ * A key an island asked for but couldn't find.
+ */
+export interface MissingKeyReport {
+  key: string;
+  locale: string;
+  /** Path of the page, as matched against route patterns */
+  path: string;
+  /** Route patterns that matched the page */
+  patterns: string[];
+  /** Catalog namespace holding the key, when it exists but wasn't injected */
+  namespace?: string;
+}
+
+/**
+ * Lists the namespaces of the catalog keys that weren't injected (each key without its last
+ * segment), leaving out namespaces covered by a parent in the list.
+ * @param all - Full translations of the locale
+ * @param injected - Translations injected for the page
+ * @returns Sorted namespaces
+ * @example
+ * getAvailableNamespaces(
+ *   { "common.save": "Save", "features.reports.title": "Reports", "features.reports.empty": "…" },
+ *   { "common.save": "Save" },
+ * ) // ["features.reports"]
+ */
+export function getAvailableNamespaces(
+  all: Record<string, unknown>,
+  injected: Record<string, unknown>,
+): string[] {
+  const namespaces = new Set<string>();
+  for (const key of Object.keys(all)) {
+    if (key in injected) continue;
+    const end = key.lastIndexOf(".");
+    namespaces.add(end === -1 ? key : key.slice(0, end));
+  }
+
+  const result: string[] = [];
+  for (const namespace of [...namespaces].sort()) {
+    if (!result.some((parent) => isNamespaceLoaded([parent], namespace))) {
+      result.push(namespace);
+    }
+  }
+  return result;
+}
+
+/**
+ * Finds the namespace a missing key belongs to, among the ones that weren't injected.
+ * @param key - Missing key
+ * @param diagnostics - Injected diagnostics
+ * @param loaded - Namespaces the page has now (`__I18N__.namespaces`), including ones loaded
+ *   after the page was rendered; empty when every namespace was injected
+ * @returns The namespace, or undefined if the key isn't in a namespace the page lacks
+ */
+export function findMissingKeyNamespace(
+  key: string,
+  diagnostics: ClientDiagnostics,
+  loaded: string[],
+): string | undefined {
+  const namespace = diagnostics.available.find((ns) => isNamespaceLoaded([ns], key));
+  return namespace && !isNamespaceLoaded(loaded, namespace) ? namespace : undefined;
+}
+
+/**
+ * Explains a missing key and how to get it injected.
+ * @param report - Missing key details
+ * @returns Message for the browser console or the server log
+ * @example
+ * formatMissingKeyMessage({
+ *   key: "features.reports.title",
+ *   locale: "es",
+ *   path: "/reports/7",
+ *   patterns: ["/*"],
+ *   namespace: "features.reports",
+ * })
+ * // 'Missing translation key: "features.reports.title" [locale: es] - it exists in namespace
+ * // "features.reports", add it to clientLoad.routes for a pattern matching /reports/7 (matched: /*)'
+ */
+export function formatMissingKeyMessage(report: MissingKeyReport): string {
+  const message = `Missing translation key: "${report.key}" [locale: ${report.locale}]`;
+  if (!report.namespace) return message;
+
+  const matched = report.patterns.length > 0 ? report.patterns.join(", ") : "none";
+  return `${message} - it exists in namespace "${report.namespace}", add it to ` +
+    `clientLoad.routes for a pattern matching ${report.path} (matched: ${matched})`;
+}
+
+/**
+ * Reads a missing key report posted by an island.
+ * @param body - Parsed request body
+ * @returns The report, or null if the body isn't one
+ */
+export function parseMissingKeyReport(body: unknown): MissingKeyReport | null {
+  if (typeof body !== "object" || body === null) return null;
+  const { key, locale, path, patterns, namespace } = body as Record<string, unknown>;
+  if (
+    typeof key !== "string" || typeof locale !== "string" || typeof path !== "string" ||
+    !Array.isArray(patterns) || !patterns.every((pattern) => typeof pattern === "string") ||
+    (namespace !== undefined && typeof namespace !== "string")
+  ) {
+    return null;
+  }
+  return { key, locale, path, patterns, namespace };
+}
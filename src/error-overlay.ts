@@ -0,0 +1,54 @@
+import { formatFileIssue, type TranslationFileError } from "./file-diagnostics.ts";
+
+/**
+ * Escapes text for use in HTML.
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Builds the development error page shown when locale files are malformed.
+ * Lists every problem with its file, line and column.
+ *
+ * @param error - The error thrown while loading the locale files
+ * @param extraHtml - HTML appended to the body (e.g., the hot reload script, so the page
+ *   reloads once the file is fixed)
+ * @returns A 500 HTML response
+ */
+export function createErrorOverlayResponse(error: TranslationFileError, extraHtml = ""): Response {
+  const items = error.issues
+    .map((issue) => `<li><code>${escapeHtml(formatFileIssue(issue))}</code></li>`)
+    .join("");
+
+  const title = error.issues.length === 1
+    ? "Malformed translation file"
+    : "Malformed translation files";
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Translation file error</title>
+<style>
+  body { margin: 0; padding: 2rem; background: #1e1e1e; color: #eee; font-family: system-ui, sans-serif; }
+  h1 { color: #ff6b6b; font-size: 1.4rem; }
+  ul { padding-left: 1.2rem; }
+  li { margin: 0.5rem 0; }
+  code { white-space: pre-wrap; font-size: 0.95rem; }
+  p { color: #aaa; }
+</style>
+</head>
+<body>
+<h1>❌ ${title}</h1>
+<ul>${items}</ul>
+<p>Fix the file and reload the page. This overlay is only shown in development; production startup fails instead.</p>
+${extraHtml}
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: 500,
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * A problem found while reading a translation file.
+ */
+export interface TranslationFileIssue {
+  /** Path of the translation file */
+  filePath: string;
+  /** Description of the problem */
+  message: string;
+  /** 1-based line, when known */
+  line?: number;
+  /** 1-based column, when known */
+  column?: number;
+}
+
+/**
+ * Formats an issue as `file:line:column message`.
+ * @param issue - The issue to format
+ * @returns The formatted issue
+ * @example
+ * formatFileIssue({ filePath: "locales/en/common.json", line: 3, column: 5, message: "Duplicate key \"title\"" })
+ * // 'locales/en/common.json:3:5 Duplicate key "title"'
+ */
+export function formatFileIssue({ filePath, message, line, column }: TranslationFileIssue): string {
+  let location = "";
+  if (line !== undefined) location = column === undefined ? `:${line}` : `:${line}:${column}`;
+  return `${filePath}${location} ${message}`;
+}
+
+/**
+ * Error thrown in strict mode when translation files are malformed.
+ * Lists every problem found, not only the first one.
+ */
+export class TranslationFileError extends Error {
+  /** Problems found, one per file location */
+  readonly issues: TranslationFileIssue[];
+
+  constructor(issues: TranslationFileIssue[]) {
+    super(
+      issues.length === 1
+        ? `Malformed translation file: ${formatFileIssue(issues[0])}`
+        : `Malformed translation files:\n${issues.map(formatFileIssue).join("\n")}`,
+    );
+    this.name = "TranslationFileError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Converts a character offset into a 1-based line and column.
+ * @param content - The file content
+ * @param offset - Character offset
+ * @returns The line and column of the offset
+ */
+export function getLineColumn(content: string, offset: number): { line: number; column: number } {
+  const before = content.slice(0, offset);
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return { line: before.split("\n").length, column: offset - lineStart + 1 };
+}
+
+/**
+ * Extracts the line and column of a parse error.
+ * Understands the formats used by `JSON.parse` ("position 42", "line 3 column 5"),
+ * YAML and TOML parsers ("line 3, column 5") and JSON5 (`lineNumber`/`columnNumber`).
+ *
+ * @param error - Error thrown by a loader
+ * @param content - The parsed content, used to convert offsets
+ * @returns The location, or an empty object when the error doesn't include one
+ */
+export function getErrorLocation(
+  error: unknown,
+  content: string,
+): { line?: number; column?: number } {
+  const { lineNumber, columnNumber } = error as { lineNumber?: unknown; columnNumber?: unknown };
+  if (typeof lineNumber === "number") {
+    return {
+      line: lineNumber,
+      column: typeof columnNumber === "number" ? columnNumber : undefined,
+    };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const lineColumn = /line (\d+)[,\s]+col(?:umn)? (\d+)/i.exec(message);
+  if (lineColumn) return { line: Number(lineColumn[1]), column: Number(lineColumn[2]) };
+
+  const position = /position (\d+)/i.exec(message);
+  if (position) return getLineColumn(content, Number(position[1]));
+
+  const line = /line (\d+)/i.exec(message);
+  return line ? { line: Number(line[1]) } : {};
+}
+
+/**
+ * Finds keys that appear more than once in the same JSON object.
+ * `JSON.parse` silently keeps the last one, hiding the first translation.
+ *
+ * @param content - Valid JSON content
+ * @returns Duplicate keys with the offset of every repeated occurrence
+ * @example
+ * findDuplicateJsonKeys('{"a": "1", "a": "2"}') // [{ key: "a", offset: 11 }]
+ */
+export function findDuplicateJsonKeys(content: string): { key: string; offset: number }[] {
+  const duplicates: { key: string; offset: number }[] = [];
+  // Keys seen in each open object; null for arrays
+  const stack: (Set<string> | null)[] = [];
+  let expectKey = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (char === '"') {
+      let end = i + 1;
+      while (end < content.length && content[end] !== '"') {
+        end += content[end] === "\\" ? 2 : 1;
+      }
+
+      const keys = stack[stack.length - 1];
+      if (expectKey && keys) {
+        const key = JSON.parse(content.slice(i, end + 1)) as string;
+        if (keys.has(key)) duplicates.push({ key, offset: i });
+        keys.add(key);
+      }
+      expectKey = false;
+      i = end;
+    } else if (char === "{") {
+      stack.push(new Set());
+      expectKey = true;
+    } else if (char === "[") {
+      stack.push(null);
+    } else if (char === "}" || char === "]") {
+      stack.pop();
+    } else if (char === ",") {
+      expectKey = stack[stack.length - 1] instanceof Set;
+    }
+  }
+
+  return duplicates;
+}
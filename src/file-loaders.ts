@@ -0,0 +1,146 @@
+/**
+ * Parses the content of a translation file into a (possibly nested) object.
+ * Errors thrown by a loader are handled like invalid JSON.
+ *
+ * @example
+ * ```typescript
+ * const properties: TranslationFileLoader = (content) =>
+ *   Object.fromEntries(
+ *     content.split("\n").filter((line) => line.includes("=")).map((line) => {
+ *       const [key, ...value] = line.split("=");
+ *       return [key.trim(), value.join("=").trim()];
+ *     }),
+ *   );
+ * ```
+ */
+export type TranslationFileLoader = (
+  content: string,
+  filePath: string,
+) => Record<string, unknown> | Promise<Record<string, unknown>>;
+
+/**
+ * Translation file loaders keyed by file extension, including the dot (e.g., ".yaml").
+ */
+export type TranslationLoaders = Record<string, TranslationFileLoader>;
+
+const parseYaml: TranslationFileLoader = async (content) => {
+  const { parse } = await import("@std/yaml");
+  return parse(content) as Record<string, unknown>;
+};
+
+/**
+ * Reads a quoted PO string, unescaping `\n`, `\t`, `\"` and `\\`.
+ */
+function readPoString(text: string): string {
+  return text.trim().replace(/^"|"$/g, "").replace(
+    /\\(.)/g,
+    (_, char: string) => ({ n: "\n", t: "\t", r: "\r" } as Record<string, string>)[char] ?? char,
+  );
+}
+
+/**
+ * Parses a gettext `.po` file.
+ * `msgid` is the translation key and `msgstr` its value; `msgctxt`, when present,
+ * is prepended to the key (`msgctxt "actions"` + `msgid "save"` → `actions.save`).
+ * Untranslated entries and the header are skipped. Plural entries are not supported:
+ * use ICU plural syntax inside `msgstr` instead.
+ *
+ * @param content - The `.po` file content
+ * @param filePath - Path of the file, used in warnings
+ * @returns Flat object of key -> translation
+ */
+export function parsePo(content: string, filePath = "<po>"): Record<string, string> {
+  const result: Record<string, string> = {};
+  let entry: Record<string, string> = {};
+  let field: string | null = null;
+
+  const flush = () => {
+    if (entry.msgid_plural !== undefined) {
+      console.warn(
+        `⚠️  Skipping plural entry "${entry.msgid}" in ${filePath}, use ICU plural syntax`,
+      );
+    } else if (entry.msgid && entry.msgstr) {
+      result[entry.msgctxt ? `${entry.msgctxt}.${entry.msgid}` : entry.msgid] = entry.msgstr;
+    }
+    entry = {};
+    field = null;
+  };
+
+  for (const [index, rawLine] of content.split(/\r?\n/).entries()) {
+    const line = rawLine.trim();
+
+    if (line === "") {
+      flush();
+    } else if (line.startsWith("#")) {
+      // Comments and flags
+      continue;
+    } else if (line.startsWith('"') && field) {
+      // Continuation of the previous string
+      entry[field] += readPoString(line);
+    } else {
+      const match = /^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+(".*")$/.exec(line);
+      if (!match) {
+        throw new SyntaxError(`Unexpected content at line ${index + 1} of ${filePath}: ${line}`);
+      }
+
+      field = match[1];
+      // A new msgctxt/msgid after a msgstr starts a new entry
+      if ((field === "msgctxt" || field === "msgid") && entry.msgstr !== undefined) {
+        const pending = readPoString(match[2]);
+        flush();
+        field = match[1];
+        entry[field] = pending;
+        continue;
+      }
+      entry[field] = readPoString(match[2]);
+    }
+  }
+  flush();
+
+  return result;
+}
+
+/**
+ * Built-in loaders: JSON, JSON5, YAML, TOML and gettext PO.
+ * Parsers other than JSON are imported the first time a file of that type is read.
+ */
+export const DEFAULT_LOADERS: TranslationLoaders = {
+  ".json": (content) => JSON.parse(content),
+  ".json5": async (content) => {
+    const { default: JSON5 } = await import("json5");
+    return JSON5.parse(content);
+  },
+  ".yaml": parseYaml,
+  ".yml": parseYaml,
+  ".toml": async (content) => {
+    const { parse } = await import("@std/toml");
+    return parse(content);
+  },
+  ".po": parsePo,
+};
+
+/**
+ * Merges custom loaders with the built-in ones. Custom loaders win.
+ * Extensions are matched case-insensitively and may be given with or without the dot.
+ * @param loaders - Custom loaders
+ * @returns Loaders keyed by lowercase extension with a leading dot
+ */
+export function resolveLoaders(loaders: TranslationLoaders = {}): TranslationLoaders {
+  const resolved = { ...DEFAULT_LOADERS };
+  for (const [extension, loader] of Object.entries(loaders)) {
+    const normalized = extension.toLowerCase();
+    resolved[normalized.startsWith(".") ? normalized : `.${normalized}`] = loader;
+  }
+  return resolved;
+}
+
+/**
+ * Finds the loader extension of a file.
+ * @param fileName - File name or path
+ * @param loaders - Available loaders
+ * @returns The lowercase extension (e.g., ".yaml"), or null if no loader handles the file
+ */
+export function getLoaderExtension(fileName: string, loaders: TranslationLoaders): string | null {
+  const extension = /\.[^.\\/]+$/.exec(fileName)?.[0].toLowerCase();
+  return extension && extension in loaders ? extension : null;
+}
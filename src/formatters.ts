@@ -0,0 +1,216 @@
+/**
+ * Named format presets, usable by name in formatter calls and in messages
+ * (`{amount, number, currency}`, `{when, date, short}`).
+ *
+ * @example
+ * ```typescript
+ * const formats: FormatPresets = {
+ *   number: { currency: { style: "currency", currency: "EUR" } },
+ *   date: { weekday: { weekday: "long", day: "numeric", month: "long" } },
+ * };
+ * ```
+ */
+export interface FormatPresets {
+  number?: Record<string, Intl.NumberFormatOptions>;
+  date?: Record<string, Intl.DateTimeFormatOptions>;
+  time?: Record<string, Intl.DateTimeFormatOptions>;
+  relativeTime?: Record<string, Intl.RelativeTimeFormatOptions>;
+  list?: Record<string, Intl.ListFormatOptions>;
+}
+
+/**
+ * A preset name or inline `Intl` options.
+ */
+export type FormatOption<Options> = string | Options;
+
+/**
+ * Date values accepted by the formatter: a `Date`, a timestamp or an ISO string.
+ */
+export type DateInput = Date | number | string;
+
+/**
+ * `Intl` formatters bound to a locale, exposed as `state.fmt` and returned by `useFormatter()`.
+ */
+export interface Formatter {
+  /** Locale the formatter is bound to */
+  readonly locale: string | undefined;
+  /**
+   * Formats a number.
+   * @example fmt.number(1234.5) // "1,234.5"
+   * @example fmt.number(0.25, "percent") // "25%"
+   */
+  number(value: number | bigint, format?: FormatOption<Intl.NumberFormatOptions>): string;
+  /**
+   * Formats an amount of money.
+   * @example fmt.currency(9.99, "EUR") // "€9.99"
+   */
+  currency(value: number | bigint, currency: string, options?: Intl.NumberFormatOptions): string;
+  /**
+   * Formats a date. The default is the `"medium"` date style.
+   * @example fmt.date(new Date(), "long") // "January 28, 2026"
+   */
+  date(value: DateInput, format?: FormatOption<Intl.DateTimeFormatOptions>): string;
+  /**
+   * Formats the time of a date. The default is the `"short"` time style.
+   * @example fmt.time(new Date()) // "3:45 PM"
+   */
+  time(value: DateInput, format?: FormatOption<Intl.DateTimeFormatOptions>): string;
+  /**
+   * Formats a relative time.
+   * @example fmt.relativeTime(-1, "day", { numeric: "auto" }) // "yesterday"
+   */
+  relativeTime(
+    value: number,
+    unit: Intl.RelativeTimeFormatUnit,
+    format?: FormatOption<Intl.RelativeTimeFormatOptions>,
+  ): string;
+  /**
+   * Joins a list of items.
+   * @example fmt.list(["Ana", "Bo", "Cy"]) // "Ana, Bo, and Cy"
+   */
+  list(items: Iterable<string>, format?: FormatOption<Intl.ListFormatOptions>): string;
+}
+
+/**
+ * Presets available without configuration, following the ICU MessageFormat styles.
+ */
+const BUILT_IN_PRESETS: Required<FormatPresets> = {
+  number: {
+    integer: { maximumFractionDigits: 0 },
+    percent: { style: "percent" },
+    compact: { notation: "compact" },
+  },
+  date: {
+    short: { dateStyle: "short" },
+    medium: { dateStyle: "medium" },
+    long: { dateStyle: "long" },
+    full: { dateStyle: "full" },
+  },
+  time: {
+    short: { timeStyle: "short" },
+    medium: { timeStyle: "medium" },
+    long: { timeStyle: "long" },
+    full: { timeStyle: "full" },
+  },
+  relativeTime: {},
+  list: {
+    conjunction: { type: "conjunction" },
+    disjunction: { type: "disjunction" },
+    unit: { type: "unit" },
+  },
+};
+
+// Intl instances keyed by type, locale and options; building them is the expensive part
+const intlCache = new Map<string, unknown>();
+
+function getIntl<T>(
+  type: string,
+  locale: string | undefined,
+  options: object | undefined,
+  create: () => T,
+): T {
+  const cacheKey = `${type}\u0000${locale ?? ""}\u0000${JSON.stringify(options ?? {})}`;
+  let instance = intlCache.get(cacheKey) as T | undefined;
+  if (!instance) {
+    instance = create();
+    intlCache.set(cacheKey, instance);
+  }
+  return instance;
+}
+
+// Formatters per preset object and locale
+const formatterCache = new WeakMap<FormatPresets, Map<string, Formatter>>();
+const NO_PRESETS: FormatPresets = {};
+// Unknown preset names already warned about, as "kind:name"
+const warnedPresets = new Set<string>();
+
+/**
+ * Creates the formatters of a locale. Formatters are cached per locale and presets object,
+ * and the underlying `Intl` instances are shared by every formatter.
+ *
+ * @param locale - Locale to format for (the runtime default when undefined)
+ * @param presets - Named presets, merged over the built-in ones
+ * @returns Formatter bound to the locale
+ *
+ * @example
+ * ```typescript
+ * const fmt = createFormatter("de", { number: { currency: { style: "currency", currency: "EUR" } } });
+ * fmt.number(9.99, "currency"); // "9,99 €"
+ * fmt.list(["Ana", "Bo"]); // "Ana und Bo"
+ * ```
+ */
+export function createFormatter(locale?: string, presets: FormatPresets = NO_PRESETS): Formatter {
+  let byLocale = formatterCache.get(presets);
+  if (!byLocale) {
+    byLocale = new Map();
+    formatterCache.set(presets, byLocale);
+  }
+
+  const cacheKey = locale ?? "";
+  const cached = byLocale.get(cacheKey);
+  if (cached) return cached;
+
+  const resolve = <Options>(
+    kind: keyof FormatPresets,
+    format: FormatOption<Options> | undefined,
+    fallback?: Options,
+  ): Options | undefined => {
+    if (format === undefined) return fallback;
+    if (typeof format !== "string") return format;
+
+    const preset = (presets[kind]?.[format] ?? BUILT_IN_PRESETS[kind][format]) as
+      | Options
+      | undefined;
+    if (!preset) {
+      if (!warnedPresets.has(`${kind}:${format}`)) {
+        warnedPresets.add(`${kind}:${format}`);
+        console.warn(`⚠️  Unknown ${kind} format "${format}", using the default format`);
+      }
+      return fallback;
+    }
+    return preset;
+  };
+
+  const toDate = (value: DateInput) => value instanceof Date ? value : new Date(value);
+
+  const formatter: Formatter = {
+    locale,
+    number(value, format) {
+      const options = resolve("number", format);
+      return getIntl("number", locale, options, () => new Intl.NumberFormat(locale, options))
+        .format(value);
+    },
+    currency(value, currency, options) {
+      const resolved = { ...options, style: "currency" as const, currency };
+      return getIntl("number", locale, resolved, () => new Intl.NumberFormat(locale, resolved))
+        .format(value);
+    },
+    date(value, format) {
+      const options = resolve("date", format, { dateStyle: "medium" });
+      return getIntl("date", locale, options, () => new Intl.DateTimeFormat(locale, options))
+        .format(toDate(value));
+    },
+    time(value, format) {
+      const options = resolve("time", format, { timeStyle: "short" });
+      return getIntl("date", locale, options, () => new Intl.DateTimeFormat(locale, options))
+        .format(toDate(value));
+    },
+    relativeTime(value, unit, format) {
+      const options = resolve("relativeTime", format);
+      return getIntl(
+        "relativeTime",
+        locale,
+        options,
+        () => new Intl.RelativeTimeFormat(locale, options),
+      ).format(value, unit);
+    },
+    list(items, format) {
+      const options = resolve("list", format);
+      return getIntl("list", locale, options, () => new Intl.ListFormat(locale, options))
+        .format(items);
+    },
+  };
+
+  byLocale.set(cacheKey, formatter);
+  return formatter;
+}
@@ -0,0 +1,204 @@
+import { relative, resolve } from "@std/path";
+import { DEFAULT_LOADERS, getLoaderExtension, type TranslationLoaders } from "./file-loaders.ts";
+import { namespaceFromPath } from "./translation-loader.ts";
+import { getNonceAttribute } from "./html-injection.ts";
+
+/**
+ * Path of the Server-Sent Events endpoint used to notify open pages about locale changes.
+ */
+export const HOT_RELOAD_PATH = "/_i18n/hot-reload";
+
+/**
+ * A change detected in the locales directory.
+ */
+export interface LocaleChange {
+  /** Locale folder that changed (e.g., "en") */
+  locale: string;
+  /** Namespace of the changed file, or undefined when the whole locale must be reloaded */
+  namespace?: string;
+}
+
+/**
+ * Handle returned by `watchLocales()`.
+ */
+export interface LocaleWatcher {
+  /** Stops watching the locales directory */
+  close(): void;
+}
+
+/**
+ * Maps a file system path inside the locales directory to the affected locale and namespace.
+ * @param localesDir - Path to the directory containing locale folders
+ * @param path - Changed path reported by the file watcher
+ * @param loaders - Loaders whose extensions are translation files
+ * @returns The locale change, or null if the path is not inside a locale folder
+ * @example
+ * getLocaleChange("./locales", "/app/locales/en/common/actions.json")
+ * // { locale: "en", namespace: "common.actions" }
+ */
+export function getLocaleChange(
+  localesDir: string,
+  path: string,
+  loaders: TranslationLoaders = DEFAULT_LOADERS,
+): LocaleChange | null {
+  const [locale, ...rest] = relative(resolve(localesDir), resolve(path)).split(/[\\/]/);
+  if (!locale || locale.startsWith("..") || rest.length === 0) return null;
+
+  const relativePath = rest.join("/");
+  // Directory renames or deletions can affect many namespaces at once
+  if (!getLoaderExtension(relativePath, loaders)) return { locale };
+
+  return { locale, namespace: namespaceFromPath(relativePath) };
+}
+
+/**
+ * Watches the locales directory and reports changed locale files.
+ * Events are debounced so an editor saving a file triggers a single change.
+ *
+ * @param localesDir - Path to the directory containing locale folders
+ * @param onChange - Called once per changed locale/namespace
+ * @param debounceMs - Time to wait for more events before reporting changes
+ * @param loaders - Loaders whose extensions are translation files
+ * @returns A handle to stop watching
+ *
+ * @example
+ * ```typescript
+ * const watcher = watchLocales("./locales", ({ locale, namespace }) => {
+ *   cache.invalidate(locale, namespace);
+ * });
+ * ```
+ */
+export function watchLocales(
+  localesDir: string,
+  onChange: (change: LocaleChange) => void,
+  debounceMs = 50,
+  loaders: TranslationLoaders = DEFAULT_LOADERS,
+): LocaleWatcher {
+  const fsWatcher = Deno.watchFs(localesDir, { recursive: true });
+  const pending = new Map<string, LocaleChange>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = () => {
+    timer = undefined;
+    const changes = [...pending.values()];
+    pending.clear();
+
+    const reloadedLocales = new Set(
+      changes.filter((change) => change.namespace === undefined).map((change) => change.locale),
+    );
+    for (const change of changes) {
+      // A whole-locale change supersedes namespace changes of the same locale
+      if (change.namespace !== undefined && reloadedLocales.has(change.locale)) continue;
+      onChange(change);
+    }
+  };
+
+  (async () => {
+    try {
+      for await (const event of fsWatcher) {
+        if (event.kind === "access") continue;
+
+        for (const path of event.paths) {
+          const change = getLocaleChange(localesDir, path, loaders);
+          if (!change) continue;
+          pending.set(
+            change.namespace === undefined ? change.locale : `${change.locale}:${change.namespace}`,
+            change,
+          );
+        }
+
+        if (pending.size > 0) {
+          clearTimeout(timer);
+          timer = setTimeout(flush, debounceMs);
+        }
+      }
+    } catch (error) {
+      console.error(`Error watching locales directory ${localesDir}:`, error);
+    }
+  })();
+
+  return {
+    close() {
+      clearTimeout(timer);
+      fsWatcher.close();
+    },
+  };
+}
+
+/**
+ * Broadcasts locale changes to open pages through Server-Sent Events.
+ */
+export interface HotReloadChannel {
+  /** Creates the event stream response for a new page connection */
+  connect(): Response;
+  /** Sends a locale change to every connected page */
+  notify(change: LocaleChange): void;
+  /** Ends every open connection */
+  close(): void;
+}
+
+/**
+ * Creates a Server-Sent Events channel for locale hot reload notifications.
+ * @returns The hot reload channel
+ */
+export function createHotReloadChannel(): HotReloadChannel {
+  const clients = new Set<ReadableStreamDefaultController<Uint8Array>>();
+  const encoder = new TextEncoder();
+
+  return {
+    connect() {
+      let client: ReadableStreamDefaultController<Uint8Array>;
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          client = controller;
+          clients.add(controller);
+          controller.enqueue(encoder.encode(": connected\n\n"));
+        },
+        cancel() {
+          clients.delete(client);
+        },
+      });
+
+      return new Response(body, {
+        headers: {
+          "content-type": "text/event-stream",
+          "cache-control": "no-cache",
+        },
+      });
+    },
+    notify(change: LocaleChange) {
+      const message = encoder.encode(`data: ${JSON.stringify(change)}\n\n`);
+      for (const client of clients) {
+        try {
+          client.enqueue(message);
+        } catch {
+          clients.delete(client); // Connection already closed
+        }
+      }
+    },
+    close() {
+      for (const client of clients) {
+        try {
+          client.close();
+        } catch {
+          // Connection already closed
+        }
+      }
+      clients.clear();
+    },
+  };
+}
+
+/**
+ * Script tag injected into pages in development to reload them when their locale changes.
+ * @param locale - Locale rendered by the page
+ * @param defaultLocale - Default locale, whose changes affect fallback values
+ * @param nonce - CSP nonce for the script tag
+ * @returns HTML script tag
+ */
+export function getHotReloadScript(locale: string, defaultLocale: string, nonce?: string): string {
+  const locales = JSON.stringify([...new Set([locale, defaultLocale])]);
+  return `<script${getNonceAttribute(nonce)}>` +
+    `new EventSource(${JSON.stringify(HOT_RELOAD_PATH)}).onmessage=function(e){` +
+    `if(${locales}.indexOf(JSON.parse(e.data).locale)!==-1)location.reload();};</script>`;
+}
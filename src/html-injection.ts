@@ -0,0 +1,172 @@
+const encoder = new TextEncoder();
+
+const HEAD_CLOSE = encoder.encode("</head>");
+const BODY_OPEN = encoder.encode("<body");
+const TAG_END = ">".charCodeAt(0);
+
+// Longest start of a body held back while looking for the insertion point
+const MAX_BUFFERED_BYTES = 64 * 1024;
+
+/**
+ * Finds a byte sequence. Markup is ASCII, and ASCII bytes never occur inside multi-byte
+ * UTF-8 characters, so searching bytes is safe without decoding.
+ */
+function indexOfBytes(bytes: Uint8Array, pattern: Uint8Array, from = 0): number {
+  outer: for (let i = from; i <= bytes.length - pattern.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Finds the first `<body` tag, skipping tags that only start with "body" (e.g., <bodyguard>).
+ * @returns Its offset, or -1 if there is none yet (including one whose next byte hasn't arrived)
+ */
+function indexOfBodyOpen(bytes: Uint8Array, from: number): number {
+  let index = indexOfBytes(bytes, BODY_OPEN, from);
+  while (index !== -1) {
+    const next = bytes[index + BODY_OPEN.length];
+    if (next === undefined) return -1;
+    if (!/[\w-]/.test(String.fromCharCode(next))) return index;
+    index = indexOfBytes(bytes, BODY_OPEN, index + 1);
+  }
+  return -1;
+}
+
+/**
+ * Creates a search for where scripts go: before the first `</head>`, or after the first
+ * `<body …>` tag. The search is called with a growing buffer and only scans the bytes added
+ * since the last call, plus enough of the previous ones to find a tag split across chunks.
+ * @returns A function taking the buffer and returning the insertion offset, or -1 if the
+ * buffer doesn't contain a complete tag yet
+ */
+function createInsertionSearch(): (bytes: Uint8Array) => number {
+  let scanned = 0;
+  let bodyOpen = -1;
+
+  return (bytes) => {
+    if (bodyOpen === -1) {
+      const headClose = indexOfBytes(
+        bytes,
+        HEAD_CLOSE,
+        Math.max(0, scanned - (HEAD_CLOSE.length - 1)),
+      );
+      // The byte after "<body" is part of the match, hence one more byte of overlap
+      bodyOpen = indexOfBodyOpen(bytes, Math.max(0, scanned - BODY_OPEN.length));
+      if (headClose !== -1 && (bodyOpen === -1 || headClose < bodyOpen)) return headClose;
+    }
+
+    const from = Math.max(bodyOpen, scanned);
+    scanned = bytes.length;
+    if (bodyOpen === -1) return -1;
+
+    const tagEnd = bytes.indexOf(TAG_END, from);
+    return tagEnd === -1 ? -1 : tagEnd + 1;
+  };
+}
+
+/**
+ * Builds the `nonce` attribute of an injected script tag.
+ * @param nonce - CSP nonce of the request
+ * @returns The attribute with a leading space, or an empty string without a nonce
+ * @example
+ * getNonceAttribute("r4nd0m") // ' nonce="r4nd0m"'
+ */
+export function getNonceAttribute(nonce?: string): string {
+  if (!nonce) return "";
+  return ` nonce="${nonce.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;")}"`;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+/**
+ * Creates a stream inserting script tags into an HTML body as it passes through.
+ * Chunks are held back only until the first `</head>` or `<body>` tag arrives; everything
+ * after it streams unchanged. Without either tag in the first 64 KiB, the scripts are
+ * prepended to the body.
+ *
+ * @param scriptTags - Script tags to insert
+ * @returns Transform stream of UTF-8 bytes
+ *
+ * @example
+ * ```typescript
+ * const body = response.body!.pipeThrough(createInjectionStream("<script>…</script>"));
+ * ```
+ */
+export function createInjectionStream(scriptTags: string): TransformStream<Uint8Array, Uint8Array> {
+  const scripts = encoder.encode(scriptTags);
+  const findInsertionPoint = createInsertionSearch();
+  let pending: Uint8Array | null = new Uint8Array(0);
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      if (!pending) {
+        controller.enqueue(chunk);
+        return;
+      }
+
+      const buffered = concat(pending, chunk);
+      const offset = findInsertionPoint(buffered);
+      if (offset === -1 && buffered.length <= MAX_BUFFERED_BYTES) {
+        pending = buffered;
+        return;
+      }
+      pending = null;
+
+      if (offset === -1) {
+        // No tag near the start: stop holding the body back and prepend the scripts
+        controller.enqueue(scripts);
+        controller.enqueue(buffered);
+        return;
+      }
+
+      controller.enqueue(buffered.subarray(0, offset));
+      controller.enqueue(scripts);
+      controller.enqueue(buffered.subarray(offset));
+    },
+    flush(controller) {
+      if (!pending) return;
+      // Fallback: prepend to HTML
+      controller.enqueue(scripts);
+      if (pending.length > 0) controller.enqueue(pending);
+    },
+  });
+}
+
+/**
+ * Inserts script tags into an HTML response without buffering its body.
+ * Compressed bodies (any `Content-Encoding` other than `identity`) and bodiless responses are
+ * returned unchanged. `Content-Length` is removed since the body grows.
+ *
+ * @param response - HTML response
+ * @param scriptTags - Script tags to insert
+ * @returns A response streaming the modified body
+ *
+ * @example
+ * ```typescript
+ * return injectIntoResponse(await ctx.next(), "<script>window.__I18N__={…}</script>");
+ * ```
+ */
+export function injectIntoResponse(response: Response, scriptTags: string): Response {
+  const encoding = response.headers.get("content-encoding");
+  if (!response.body || (encoding && encoding !== "identity")) {
+    return response;
+  }
+
+  const headers = new Headers(response.headers);
+  headers.delete("content-length");
+
+  return new Response(response.body.pipeThrough(createInjectionStream(scriptTags)), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
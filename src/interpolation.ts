@@ -0,0 +1,91 @@
+/**
+ * Values passed to a translation function.
+ * `defaultValue` is reserved: it is used when the key is not in the catalog yet.
+ *
+ * @example
+ * t("common.greeting", { name: "Ana" });
+ * t("common.newKey", { defaultValue: "Hello {name}", name: "Ana" });
+ */
+export type TranslationParams = Record<string, unknown> & {
+  /** Text used when the key is missing from the catalog (placeholders are filled too) */
+  defaultValue?: string;
+};
+
+/**
+ * Result of filling the placeholders of a translation.
+ */
+export interface InterpolationResult {
+  /** Translated text with placeholders replaced */
+  text: string;
+  /** Placeholders found in the text that had no value */
+  missing: string[];
+  /** Param names that were used by at least one placeholder */
+  used: Set<string>;
+}
+
+// Matches escaped braces (\{ or \}), {{name}} and {name}
+const PLACEHOLDER_PATTERN = /\\([{}])|\{\{\s*([\w.-]+)\s*\}\}|\{\s*([\w.-]+)\s*\}/g;
+
+/**
+ * Lists the placeholder names used in a translation, in order of first appearance.
+ * @param template - The translated text
+ * @returns Placeholder names (escaped braces are ignored)
+ * @example
+ * getPlaceholderNames("Hello {name}, {{count}} new") // ["name", "count"]
+ */
+export function getPlaceholderNames(template: string): string[] {
+  const names = new Set<string>();
+  for (const [, , doubleName, singleName] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = doubleName ?? singleName;
+    if (name) names.add(name);
+  }
+  return [...names];
+}
+
+/**
+ * Replaces `{name}` and `{{name}}` placeholders with values from params.
+ * Braces preceded by a backslash are kept as literal text.
+ * Placeholders without a value are left untouched and reported in `missing`.
+ *
+ * @param template - The translated text
+ * @param params - Values for the placeholders
+ * @returns The interpolated text and placeholder usage details
+ *
+ * @example
+ * interpolate("Hello {name}, you have {{count}} messages", { name: "Ana", count: 3 }).text
+ * // "Hello Ana, you have 3 messages"
+ * interpolate("Use \\{name} as placeholder").text
+ * // "Use {name} as placeholder"
+ */
+export function interpolate(
+  template: string,
+  params: Record<string, unknown> = {},
+): InterpolationResult {
+  const missing: string[] = [];
+  const used = new Set<string>();
+
+  // Fast path: nothing to replace
+  if (!/[{}\\]/.test(template)) {
+    return { text: template, missing, used };
+  }
+
+  const text = template.replace(
+    PLACEHOLDER_PATTERN,
+    (match, escaped?: string, doubleName?: string, singleName?: string) => {
+      if (escaped) return escaped;
+
+      const name = (doubleName ?? singleName)!;
+      // Own properties only, so "{constructor}" isn't filled from the prototype
+      const value = Object.hasOwn(params, name) ? params[name] : undefined;
+      if (value === undefined || value === null) {
+        missing.push(name);
+        return match;
+      }
+
+      used.add(name);
+      return String(value);
+    },
+  );
+
+  return { text, missing, used };
+}
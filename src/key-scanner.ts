@@ -0,0 +1,396 @@
+import { join, relative } from "@std/path";
+import type { TranslationLoaders } from "./file-loaders.ts";
+import { loadLocale } from "./translation-loader.ts";
+
+/**
+ * A translation key found in source code.
+ */
+export interface ScannedKey {
+  /** Full key, including the prefix of namespaced translators */
+  key: string;
+  /** File the call is in */
+  file: string;
+  /** 1-based line of the call */
+  line: number;
+  /** 1-based column of the call */
+  column: number;
+  /** True for `t.raw()` calls, which can read every key under the key as a prefix */
+  subtree?: boolean;
+}
+
+/**
+ * A translation call whose key can't be resolved statically
+ * (e.g., `t(key)` or `` t(`status.${status}`) ``).
+ */
+export interface DynamicKey {
+  /** Source text of the key argument */
+  expression: string;
+  /**
+   * Static start of the key (translator namespace plus template literal head),
+   * used to keep matching catalog keys out of the unused list. Empty when unknown.
+   */
+  prefix: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Translation calls found in source code.
+ */
+export interface ScanResult {
+  keys: ScannedKey[];
+  dynamicKeys: DynamicKey[];
+}
+
+/**
+ * Options for scanning a project.
+ */
+export interface ScanOptions {
+  /**
+   * Project root.
+   * @default "."
+   */
+  rootDir?: string;
+  /**
+   * Directories to scan, relative to `rootDir`.
+   * @default ["routes", "islands", "components"]
+   */
+  dirs?: string[];
+  /**
+   * File extensions to scan.
+   * @default [".ts", ".tsx", ".js", ".jsx"]
+   */
+  extensions?: string[];
+}
+
+/**
+ * Options for comparing source usage with the catalog.
+ */
+export interface KeyUsageOptions extends ScanOptions {
+  /** Path to the directory containing locale folders */
+  localesDir: string;
+  /** Locale whose keys make up the catalog */
+  defaultLanguage: string;
+  /** Custom loaders keyed by file extension, merged with the built-in ones */
+  loaders?: TranslationLoaders;
+}
+
+/**
+ * Result of comparing source usage with the catalog.
+ */
+export interface KeyUsageReport {
+  /** Number of keys in the catalog */
+  keyCount: number;
+  /** Catalog keys used by a static call, sorted */
+  used: string[];
+  /** Catalog keys never used and not covered by a dynamic key prefix, sorted */
+  unused: string[];
+  /** Calls to keys that are not in the catalog */
+  undeclared: ScannedKey[];
+  /** Calls whose key can't be resolved statically */
+  dynamic: DynamicKey[];
+}
+
+const DEFAULT_SCAN_DIRS = ["routes", "islands", "components"];
+export const DEFAULT_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx"];
+
+// const tX = createNamespacedTranslator(source, "namespace")
+const NAMESPACED_PATTERN =
+  /\b(?:const|let|var)\s+([\w$]+)\s*=\s*createNamespacedTranslator\s*(?:<[^>]*>)?\s*\(\s*([\w$.]+)\s*,\s*(["'`])([^"'`$]*)\3\s*\)/g;
+// const t = useTranslation() / useTranslation<TranslationKey>()
+const HOOK_PATTERN = /\b(?:const|let|var)\s+([\w$]+)\s*=\s*useTranslation\s*(?:<[^>]*>)?\s*\(/g;
+
+/**
+ * Replaces comments with spaces so commented-out calls are ignored.
+ * Line and column positions are preserved.
+ */
+function stripComments(source: string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const next = source[i + 1];
+
+    if (char === '"' || char === "'" || char === "`") {
+      // Copy the string literal as is
+      let end = i + 1;
+      while (end < source.length && source[end] !== char) {
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      result += source.slice(i, end + 1);
+      i = end + 1;
+    } else if (char === "/" && next === "/") {
+      const end = source.indexOf("\n", i);
+      const stop = end === -1 ? source.length : end;
+      result += " ".repeat(stop - i);
+      i = stop;
+    } else if (char === "/" && next === "*") {
+      const end = source.indexOf("*/", i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      result += source.slice(i, stop).replace(/[^\n]/g, " ");
+      i = stop;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Escapes a string for use in a regular expression.
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Reads the first argument of a call starting right after `(`.
+ * @returns The literal key, or the dynamic expression with its static head
+ */
+function readKeyArgument(
+  source: string,
+  start: number,
+): { key: string } | { expression: string; head: string } {
+  let pos = start;
+  while (/\s/.test(source[pos] ?? "")) pos++;
+  const quote = source[pos];
+
+  if (quote === '"' || quote === "'" || quote === "`") {
+    let end = pos + 1;
+    while (end < source.length && source[end] !== quote) {
+      end += source[end] === "\\" ? 2 : 1;
+    }
+    const content = source.slice(pos + 1, end);
+    const interpolation = quote === "`" ? content.indexOf("${") : -1;
+    const rest = source.slice(end + 1).trimStart();
+
+    // A literal followed by anything but `,` or `)` is part of a larger expression
+    if (interpolation === -1 && (rest.startsWith(",") || rest.startsWith(")"))) {
+      return { key: content };
+    }
+    const head = interpolation === -1 ? "" : content.slice(0, interpolation);
+    return { expression: source.slice(pos, end + 1), head };
+  }
+
+  // Non-literal argument: read up to the closing parenthesis or the next argument
+  let depth = 0;
+  let end = pos;
+  while (end < source.length) {
+    const char = source[end];
+    if ("([{".includes(char)) depth++;
+    else if (")]}".includes(char)) {
+      if (depth === 0) break;
+      depth--;
+    } else if (char === "," && depth === 0) break;
+    end++;
+  }
+  return { expression: source.slice(pos, end).trim(), head: "" };
+}
+
+/**
+ * Finds the translation calls of a source file.
+ *
+ * Recognized translators:
+ * - `t(...)`, `state.t(...)`, `ctx.state.t(...)`
+ * - variables assigned from `useTranslation()`
+ * - variables assigned from `createNamespacedTranslator(translator, "namespace")`,
+ *   whose keys are prefixed with the namespace
+ *
+ * @param source - Source code
+ * @param file - File name used in the results
+ * @returns Static keys and calls whose key can't be resolved
+ *
+ * @example
+ * scanSource(`const tActions = createNamespacedTranslator(t, "common.actions");
+ * tActions("save");`, "routes/index.tsx").keys[0].key
+ * // "common.actions.save"
+ */
+export function scanSource(source: string, file: string): ScanResult {
+  const code = stripComments(source);
+  const translators = new Map<string, string>([["t", ""]]);
+
+  for (const [, name] of code.matchAll(HOOK_PATTERN)) {
+    translators.set(name, "");
+  }
+  // Declarations are processed in order so namespaced translators can build on each other
+  for (const [, name, translator, , namespace] of code.matchAll(NAMESPACED_PATTERN)) {
+    // `state.t`, `ctx.state.t` and unknown translators (e.g., props) have no prefix
+    const base = translators.get(translator) ?? "";
+    translators.set(name, namespace ? `${base}${namespace}.` : base);
+  }
+
+  const names = [...translators.keys()].map(escapeRegExp).join("|");
+  // Bare translator names, or any `.t(` member call (state.t, ctx.state.t),
+  // optionally through the `list`/`raw`/`rich` accessors
+  const accessor = "(\\.list|\\.raw|\\.rich)?";
+  const callPattern = new RegExp(
+    `(?<![\\w$.])(${names})${accessor}\\s*\\(|\\.t${accessor}\\s*\\(`,
+    "g",
+  );
+
+  const keys: ScannedKey[] = [];
+  const dynamicKeys: DynamicKey[] = [];
+  const lineStarts = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === "\n") lineStarts.push(i + 1);
+  }
+  const position = (index: number) => {
+    let line = lineStarts.length - 1;
+    while (lineStarts[line] > index) line--;
+    return { line: line + 1, column: index - lineStarts[line] + 1 };
+  };
+
+  for (const match of code.matchAll(callPattern)) {
+    const prefix = match[1] ? translators.get(match[1])! : "";
+    const argument = readKeyArgument(code, match.index! + match[0].length);
+    const location = { file, ...position(match.index! + (match[0].startsWith(".") ? 1 : 0)) };
+
+    if ("key" in argument) {
+      const subtree = (match[2] ?? match[3]) === ".raw";
+      keys.push({ key: `${prefix}${argument.key}`, ...location, ...(subtree && { subtree }) });
+    } else if (argument.expression !== "") {
+      dynamicKeys.push({
+        expression: argument.expression,
+        prefix: `${prefix}${argument.head}`,
+        ...location,
+      });
+    }
+  }
+
+  return { keys, dynamicKeys };
+}
+
+/**
+ * Recursively lists the source files of a directory.
+ * @param dir - Directory to list; a missing directory has no files
+ * @param extensions - File extensions to include
+ * @returns Sorted file paths
+ */
+export async function listSourceFiles(dir: string, extensions: string[]): Promise<string[]> {
+  const files: string[] = [];
+
+  try {
+    for await (const entry of Deno.readDir(dir)) {
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory && entry.name !== "node_modules" && !entry.name.startsWith(".")) {
+        files.push(...await listSourceFiles(fullPath, extensions));
+      } else if (entry.isFile && extensions.some((extension) => entry.name.endsWith(extension))) {
+        files.push(fullPath);
+      }
+    }
+  } catch {
+    // Directory doesn't exist in this project
+  }
+
+  return files.sort();
+}
+
+/**
+ * Scans the source directories of a project for translation calls.
+ * @param options - Scan options
+ * @returns Static keys and calls whose key can't be resolved, with paths relative to `rootDir`
+ */
+export async function scanProject(options: ScanOptions = {}): Promise<ScanResult> {
+  const {
+    rootDir = ".",
+    dirs = DEFAULT_SCAN_DIRS,
+    extensions = DEFAULT_EXTENSIONS,
+  } = options;
+  const result: ScanResult = { keys: [], dynamicKeys: [] };
+
+  for (const dir of dirs) {
+    for (const filePath of await listSourceFiles(join(rootDir, dir), extensions)) {
+      const { keys, dynamicKeys } = scanSource(
+        await Deno.readTextFile(filePath),
+        relative(rootDir, filePath),
+      );
+      result.keys.push(...keys);
+      result.dynamicKeys.push(...dynamicKeys);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compares the translation calls of a project with the default locale catalog.
+ *
+ * @param options - Scan options plus the catalog location
+ * @returns Used, unused and undeclared keys, and the calls that can't be resolved
+ *
+ * @example
+ * ```typescript
+ * const report = await findKeyUsage({ localesDir: "./locales", defaultLanguage: "en" });
+ * console.log(formatKeyUsageReport(report));
+ * ```
+ */
+export async function findKeyUsage(options: KeyUsageOptions): Promise<KeyUsageReport> {
+  const catalog = new Set<string>();
+  const loaded = await loadLocale(options.localesDir, options.defaultLanguage, options);
+  for (const { data } of loaded.values()) {
+    for (const key of Object.keys(data)) catalog.add(key);
+  }
+
+  const { keys, dynamicKeys } = await scanProject(options);
+  const usedKeys = new Set(keys.map(({ key }) => key));
+  // `t.raw("common.actions")` uses every key under "common.actions."
+  const subtreePrefixes = keys.filter(({ subtree }) => subtree).map(({ key }) => `${key}.`);
+  const isUsed = (key: string) =>
+    usedKeys.has(key) || subtreePrefixes.some((prefix) => key.startsWith(prefix));
+  const dynamicPrefixes = dynamicKeys.map(({ prefix }) => prefix).filter(Boolean);
+  const catalogKeys = [...catalog];
+
+  return {
+    keyCount: catalog.size,
+    used: catalogKeys.filter(isUsed).sort(),
+    unused: catalogKeys
+      .filter((key) => !isUsed(key) && !dynamicPrefixes.some((prefix) => key.startsWith(prefix)))
+      .sort(),
+    undeclared: keys.filter(({ key, subtree }) =>
+      !catalog.has(key) &&
+      !(subtree && catalogKeys.some((catalogKey) => catalogKey.startsWith(`${key}.`)))
+    ),
+    dynamic: dynamicKeys,
+  };
+}
+
+/**
+ * Formats a key usage report for the terminal.
+ * @param report - Result of `findKeyUsage()`
+ * @returns Human-readable report
+ */
+export function formatKeyUsageReport(report: KeyUsageReport): string {
+  const lines = [
+    `🔍 ${report.used.length} of ${report.keyCount} catalog keys are used`,
+  ];
+  const at = ({ file, line, column }: { file: string; line: number; column: number }) =>
+    `${file}:${line}:${column}`;
+
+  if (report.undeclared.length > 0) {
+    lines.push("", "Undeclared keys (not in the catalog):");
+    for (const key of report.undeclared) lines.push(`  ❌ "${key.key}" at ${at(key)}`);
+  }
+
+  if (report.dynamic.length > 0) {
+    lines.push("", "Dynamic keys (can't be checked):");
+    for (const key of report.dynamic) {
+      const prefix = key.prefix ? ` (keys under "${key.prefix}" are treated as used)` : "";
+      lines.push(`  ⚠️  ${key.expression} at ${at(key)}${prefix}`);
+    }
+  }
+
+  if (report.unused.length > 0) {
+    lines.push("", "Unused keys:");
+    for (const key of report.unused) lines.push(`  ⚠️  ${key}`);
+  }
+
+  if (report.undeclared.length === 0 && report.unused.length === 0) {
+    lines.push("", "✅ Every key is declared and used");
+  }
+
+  return lines.join("\n");
+}
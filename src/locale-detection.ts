@@ -0,0 +1,245 @@
+import { findSupportedLocale, negotiateLocale } from "./locale-negotiation.ts";
+
+/**
+ * Custom locale detector. Returns a locale tag, or null/undefined to let the next strategy run.
+ * Returned tags that are not in `languages` are ignored.
+ */
+export type LocaleDetector = (req: Request, url: URL) => string | null | undefined;
+
+/**
+ * A locale detection strategy.
+ * - "path": first URL path segment (`/es/dashboard`)
+ * - "cookie": locale cookie (see `DetectionConfig.cookie`)
+ * - "query": query parameter (`?lang=es`, see `DetectionConfig.queryParam`)
+ * - "header": `Accept-Language` header
+ * - "host": host name (see `DetectionConfig.hosts`) or first subdomain label (`es.example.com`)
+ * - function or `{ name, detect }`: custom detector
+ */
+export type DetectionStrategy =
+  | "path"
+  | "cookie"
+  | "query"
+  | "header"
+  | "host"
+  | LocaleDetector
+  | { name: string; detect: LocaleDetector };
+
+/**
+ * Options for the locale cookie used by the "cookie" strategy and the persist step.
+ */
+export interface LocaleCookieConfig {
+  /**
+   * Cookie name.
+   * @default "locale"
+   */
+  name?: string;
+  /**
+   * Cookie lifetime in seconds.
+   * @default 31536000 (one year)
+   */
+  maxAge?: number;
+  /**
+   * Cookie path.
+   * @default "/"
+   */
+  path?: string;
+  /**
+   * SameSite attribute.
+   * @default "Lax"
+   */
+  sameSite?: "Strict" | "Lax" | "None";
+  /**
+   * Add the Secure attribute.
+   * @default false
+   */
+  secure?: boolean;
+}
+
+/**
+ * Locale detection configuration.
+ *
+ * @example
+ * ```typescript
+ * detection: {
+ *   order: ["query", "path", "cookie", "header"],
+ *   queryParam: "lang",
+ *   cookie: { name: "locale", maxAge: 60 * 60 * 24 * 365 },
+ *   persist: true,
+ * }
+ * ```
+ */
+export interface DetectionConfig {
+  /**
+   * Strategies to try, in order. The first one returning a supported locale wins.
+   * @default ["path", "header"]
+   */
+  order?: DetectionStrategy[];
+  /**
+   * Query parameter read by the "query" strategy.
+   * @default "lang"
+   */
+  queryParam?: string;
+  /** Cookie read by the "cookie" strategy and written by the persist step */
+  cookie?: LocaleCookieConfig;
+  /**
+   * Host name to locale mapping for the "host" strategy (e.g., `{ "example.es": "es" }`).
+   * Hosts not in the map use their first subdomain label.
+   */
+  hosts?: Record<string, string>;
+  /**
+   * Set the locale cookie when the locale comes from the path or query parameter,
+   * so the choice is kept on later visits.
+   * @default true when "cookie" is in `order`
+   */
+  persist?: boolean;
+}
+
+/**
+ * Result of locale detection.
+ */
+export interface DetectedLocale {
+  /** Detected locale tag as configured in `languages` */
+  locale: string;
+  /** Strategy that found the locale ("path", "cookie", "query", "header", "host", or a custom name) */
+  source: string;
+}
+
+/** Default cookie name for the locale cookie */
+export const DEFAULT_LOCALE_COOKIE = "locale";
+
+/**
+ * Reads a cookie value from a request.
+ * @param req - The incoming request
+ * @param name - Cookie name
+ * @returns The decoded cookie value, or null if not set
+ */
+export function getCookie(req: Request, name: string): string | null {
+  const header = req.headers.get("cookie");
+  if (!header) return null;
+
+  for (const part of header.split(";")) {
+    const separator = part.indexOf("=");
+    if (separator === -1) continue;
+    if (part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Runs a single detection strategy.
+ * @returns The detected locale, or null if the strategy found nothing supported
+ */
+function runStrategy(
+  strategy: DetectionStrategy,
+  req: Request,
+  url: URL,
+  languages: string[],
+  config: DetectionConfig,
+): DetectedLocale | null {
+  const found = (candidate: string | null | undefined, source: string) => {
+    const locale = findSupportedLocale(candidate ?? undefined, languages);
+    return locale ? { locale, source } : null;
+  };
+
+  if (typeof strategy === "function") {
+    return found(strategy(req, url), "custom");
+  }
+  if (typeof strategy === "object") {
+    return found(strategy.detect(req, url), strategy.name);
+  }
+
+  switch (strategy) {
+    case "path":
+      return found(url.pathname.split("/").filter(Boolean)[0], "path");
+    case "cookie":
+      return found(getCookie(req, config.cookie?.name ?? DEFAULT_LOCALE_COOKIE), "cookie");
+    case "query":
+      return found(url.searchParams.get(config.queryParam ?? "lang"), "query");
+    case "header": {
+      const acceptLanguage = req.headers.get("Accept-Language") || "";
+      return found(negotiateLocale(acceptLanguage, languages), "header");
+    }
+    case "host":
+      return found(config.hosts?.[url.hostname] ?? url.hostname.split(".")[0], "host");
+  }
+}
+
+/**
+ * Detects the locale of a request by running the configured strategies in order.
+ *
+ * @param req - The incoming request
+ * @param url - The request URL
+ * @param languages - Supported locale tags
+ * @param config - Detection configuration
+ * @returns The detected locale and the strategy that found it, or null if none matched
+ *
+ * @example
+ * detectLocale(req, url, ["en", "es"], { order: ["query", "cookie", "header"] })
+ * // { locale: "es", source: "query" }
+ */
+export function detectLocale(
+  req: Request,
+  url: URL,
+  languages: string[],
+  config: DetectionConfig = {},
+): DetectedLocale | null {
+  for (const strategy of config.order ?? ["path", "header"]) {
+    const detected = runStrategy(strategy, req, url, languages, config);
+    if (detected) return detected;
+  }
+  return null;
+}
+
+/**
+ * Builds the Set-Cookie header that persists a detected locale.
+ * Only locales coming from the path or query parameter are persisted, and only when
+ * they differ from the current cookie value.
+ *
+ * @param req - The incoming request
+ * @param detected - Result of `detectLocale()`
+ * @param config - Detection configuration
+ * @returns The Set-Cookie header value, or null if nothing needs to be persisted
+ */
+export function getPersistCookie(
+  req: Request,
+  detected: DetectedLocale,
+  config: DetectionConfig = {},
+): string | null {
+  const persist = config.persist ?? (config.order?.includes("cookie") ?? false);
+  if (!persist || (detected.source !== "path" && detected.source !== "query")) {
+    return null;
+  }
+
+  const name = config.cookie?.name ?? DEFAULT_LOCALE_COOKIE;
+  if (getCookie(req, name) === detected.locale) return null;
+
+  return formatLocaleCookie(detected.locale, config.cookie);
+}
+
+/**
+ * Serializes the cookie that persists a locale.
+ * @param locale - Locale to persist
+ * @param cookie - Cookie settings
+ * @returns The cookie string, usable as a Set-Cookie header or `document.cookie`
+ * @example
+ * formatLocaleCookie("es") // "locale=es; Max-Age=31536000; Path=/; SameSite=Lax"
+ */
+export function formatLocaleCookie(locale: string, cookie: LocaleCookieConfig = {}): string {
+  const {
+    name = DEFAULT_LOCALE_COOKIE,
+    maxAge = 60 * 60 * 24 * 365,
+    path = "/",
+    sameSite = "Lax",
+    secure = false,
+  } = cookie;
+
+  return `${name}=${encodeURIComponent(locale)}; Max-Age=${maxAge}; Path=${path}; ` +
+    `SameSite=${sameSite}${secure ? "; Secure" : ""}`;
+}
@@ -0,0 +1,182 @@
+/**
+ * A language range parsed from an `Accept-Language` header.
+ */
+export interface LanguageRange {
+  /** Language range (e.g., "pt-BR", "en", "*") */
+  range: string;
+  /** Quality value between 0 and 1 */
+  q: number;
+}
+
+/**
+ * Parses an `Accept-Language` header into language ranges sorted by preference.
+ * Ranges with the same quality keep their header order.
+ *
+ * @param acceptLanguage - The `Accept-Language` header value
+ * @returns Language ranges, highest quality first (including q=0 ranges)
+ *
+ * @example
+ * parseAcceptLanguage("pt-BR,pt;q=0.9,en;q=0.5")
+ * // [{ range: "pt-BR", q: 1 }, { range: "pt", q: 0.9 }, { range: "en", q: 0.5 }]
+ */
+export function parseAcceptLanguage(acceptLanguage: string): LanguageRange[] {
+  return acceptLanguage
+    .split(",")
+    .map((part) => {
+      const [range, ...params] = part.trim().split(";");
+      const qParam = params.map((param) => param.trim()).find((param) => param.startsWith("q="));
+      const q = qParam ? Number(qParam.slice(2)) : 1;
+      return { range: range.trim(), q: Number.isNaN(q) ? 0 : Math.min(Math.max(q, 0), 1) };
+    })
+    .filter(({ range }) => range !== "")
+    .sort((a, b) => b.q - a.q);
+}
+
+/**
+ * Finds a supported locale tag, ignoring case.
+ * @param tag - Locale tag to look for (e.g., "pt-br")
+ * @param supportedLocales - Supported locale tags (e.g., ["en", "pt-BR"])
+ * @returns The supported tag as configured, or null if not supported
+ */
+export function findSupportedLocale(
+  tag: string | undefined,
+  supportedLocales: string[],
+): string | null {
+  if (!tag) return null;
+  const lowerTag = tag.toLowerCase();
+  return supportedLocales.find((locale) => locale.toLowerCase() === lowerTag) ?? null;
+}
+
+/**
+ * Removes the last subtag of a language tag as described by RFC 4647 lookup.
+ * A single-character subtag left at the end is removed as well.
+ * @param tag - Language tag
+ * @returns The truncated tag, or null if nothing is left
+ * @example
+ * truncateTag("zh-Hant-CN-x-private") // "zh-Hant-CN"
+ * truncateTag("pt-BR") // "pt"
+ */
+function truncateTag(tag: string): string | null {
+  const subtags = tag.split("-");
+  subtags.pop();
+  if (subtags.length > 0 && subtags[subtags.length - 1].length === 1) subtags.pop();
+  return subtags.length > 0 ? subtags.join("-") : null;
+}
+
+/**
+ * Checks whether a language range matches a tag using RFC 4647 basic filtering.
+ */
+function rangeMatches(range: string, tag: string): boolean {
+  const lowerRange = range.toLowerCase();
+  const lowerTag = tag.toLowerCase();
+  return lowerRange === "*" || lowerTag === lowerRange || lowerTag.startsWith(`${lowerRange}-`);
+}
+
+/**
+ * Picks the best supported locale for an `Accept-Language` header using RFC 4647 lookup.
+ * Each range is tried from most to least specific (`pt-BR` then `pt`).
+ * Locales matched by a `q=0` range are never returned, and `*` picks the first
+ * supported locale that is not excluded.
+ *
+ * @param acceptLanguage - The `Accept-Language` header value
+ * @param supportedLocales - Supported locale tags
+ * @param defaultLocale - Returned when nothing matches
+ * @returns The negotiated locale
+ *
+ * @example
+ * lookupLocale("pt-BR,en;q=0.5", ["en", "pt"], "en") // "pt"
+ * lookupLocale("fr, *;q=0.1", ["en", "es"], "en") // "en"
+ */
+export function lookupLocale(
+  acceptLanguage: string,
+  supportedLocales: string[],
+  defaultLocale: string,
+): string {
+  return negotiateLocale(acceptLanguage, supportedLocales) ?? defaultLocale;
+}
+
+/**
+ * Same as `lookupLocale()` but returns null when no supported locale is acceptable.
+ * @param acceptLanguage - The `Accept-Language` header value
+ * @param supportedLocales - Supported locale tags
+ * @returns The negotiated locale, or null
+ */
+export function negotiateLocale(
+  acceptLanguage: string,
+  supportedLocales: string[],
+): string | null {
+  const ranges = parseAcceptLanguage(acceptLanguage);
+  const acceptedTags = new Set(
+    ranges.filter(({ q }) => q > 0).map(({ range }) => range.toLowerCase()),
+  );
+  const excludedRanges = ranges.filter(({ q }) => q === 0).map(({ range }) => range);
+
+  const isExcluded = (locale: string) =>
+    !acceptedTags.has(locale.toLowerCase()) &&
+    excludedRanges.some((range) => rangeMatches(range, locale));
+
+  for (const { range, q } of ranges) {
+    if (q === 0) break; // Sorted: everything after is excluded too
+
+    if (range === "*") {
+      const locale = supportedLocales.find((locale) => !isExcluded(locale));
+      if (locale) return locale;
+      continue;
+    }
+
+    let tag: string | null = range;
+    while (tag) {
+      const locale = findSupportedLocale(tag, supportedLocales);
+      if (locale && !isExcluded(locale)) return locale;
+      tag = truncateTag(tag);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Builds the fallback chain of a locale, most preferred first.
+ * Uses the configured chain when present, otherwise truncates the tag
+ * (`pt-BR` → `pt`). Only supported locales are kept, and the default locale always comes last.
+ *
+ * @param locale - Locale to build the chain for
+ * @param supportedLocales - Supported locale tags
+ * @param defaultLocale - Default locale, the end of every chain
+ * @param chains - Configured chains per locale (e.g., `{ "pt-BR": ["pt-PT"] }`)
+ * @returns Locales to fall back to, excluding the locale itself
+ *
+ * @example
+ * getFallbackChain("pt-BR", ["en", "pt", "pt-BR"], "en") // ["pt", "en"]
+ * getFallbackChain("es-MX", ["en", "es", "es-MX"], "en", { "es-MX": ["es-419", "es"] })
+ * // ["es", "en"] (es-419 isn't supported)
+ */
+export function getFallbackChain(
+  locale: string,
+  supportedLocales: string[],
+  defaultLocale: string,
+  chains: Record<string, string[]> = {},
+): string[] {
+  const chain: string[] = [];
+  const configured = Object.entries(chains).find(([key]) =>
+    key.toLowerCase() === locale.toLowerCase()
+  )?.[1];
+
+  if (configured) {
+    for (const tag of configured) {
+      const supported = findSupportedLocale(tag, supportedLocales);
+      if (supported) chain.push(supported);
+    }
+  } else {
+    let tag = truncateTag(locale);
+    while (tag) {
+      const supported = findSupportedLocale(tag, supportedLocales);
+      if (supported) chain.push(supported);
+      tag = truncateTag(tag);
+    }
+  }
+  chain.push(defaultLocale);
+
+  // Remove duplicates and the locale itself
+  return [...new Set(chain)].filter((tag) => tag !== locale);
+}
@@ -0,0 +1,211 @@
+import { findSupportedLocale } from "./locale-negotiation.ts";
+
+/**
+ * Locale prefix routing configuration.
+ *
+ * @example
+ * ```typescript
+ * routing: {
+ *   prefix: "except-default",
+ *   unknownLocale: "not-found",
+ * }
+ * ```
+ */
+export interface RoutingConfig {
+  /**
+   * How locales appear in URLs.
+   * - "always": every page lives under `/{locale}/...`; unprefixed paths redirect to the detected locale
+   * - "except-default": the default locale has no prefix (`/dashboard`), other locales do (`/es/dashboard`);
+   *   `/{defaultLanguage}/...` redirects to the unprefixed path
+   * - "never": URLs carry no locale; prefixed paths redirect to the unprefixed path
+   */
+  prefix: "always" | "except-default" | "never";
+  /**
+   * What to do with a first path segment that looks like a locale but is not in `languages`
+   * (e.g., `/fr/dashboard` when `fr` is unsupported).
+   * - "redirect": replace it with the detected locale
+   * - "not-found": respond with 404
+   * - "pass-through": treat it as a normal path segment
+   * @default "pass-through"
+   */
+  unknownLocale?: "redirect" | "not-found" | "pass-through";
+  /**
+   * Pattern a path segment must match to be considered a locale by `unknownLocale`.
+   * By default, a segment is a locale when it looks like one ("fr", "fr-CA", "zh-Hant") and its
+   * language is a known ISO 639 language, so routes such as `/me` or `/go` are left alone.
+   */
+  localePattern?: RegExp;
+  /**
+   * HTTP status used for redirects.
+   * @default 302
+   */
+  redirectStatus?: 301 | 302 | 307 | 308;
+  /**
+   * Path prefixes that are never redirected (e.g., ["/api", "/static"]).
+   * Paths under `/_fresh/`, `/_frsh/` and `/_i18n/`, and paths ending in a file extension
+   * (`/favicon.ico`, `/styles.css`), are always ignored.
+   */
+  ignorePaths?: string[];
+}
+
+/**
+ * Outcome of applying the routing configuration to a request.
+ * - "redirect": send the client to `location` (path and query string)
+ * - "not-found": the path starts with an unsupported locale
+ * - "render": continue; `locale` overrides the detected locale when not null
+ */
+export type RoutingDecision =
+  | { type: "redirect"; location: string }
+  | { type: "not-found" }
+  | { type: "render"; locale: string | null };
+
+const DEFAULT_LOCALE_PATTERN = /^[a-z]{2}(-[a-z0-9]{2,4})?$/i;
+const INTERNAL_PATHS = ["/_fresh/", "/_frsh/", "/_i18n/"];
+// Static files such as /favicon.ico or /assets/app.css
+const FILE_PATH_PATTERN = /\.[a-z0-9]+$/i;
+
+let languageNames: Intl.DisplayNames | undefined;
+
+/**
+ * Checks whether a path segment is a locale tag of a known language, like "fr" or "fr-CA",
+ * and not a route that happens to be two letters long, like "/me".
+ */
+function isKnownLocaleTag(segment: string): boolean {
+  if (!DEFAULT_LOCALE_PATTERN.test(segment)) return false;
+  languageNames ??= new Intl.DisplayNames(["en"], { type: "language", fallback: "none" });
+  try {
+    return languageNames.of(segment.split("-")[0]) !== undefined;
+  } catch {
+    return false; // Not a valid language subtag
+  }
+}
+
+/**
+ * Prefixes a path with a locale segment.
+ * @example
+ * addLocalePrefix("/dashboard", "es") // "/es/dashboard"
+ * addLocalePrefix("/", "es") // "/es"
+ */
+export function addLocalePrefix(path: string, locale: string): string {
+  return path === "/" ? `/${locale}` : `/${locale}${path}`;
+}
+
+/**
+ * Removes the first segment of a path, keeping any trailing slash. Leading slashes are
+ * collapsed, so `/en//evil.com` gives `/evil.com` and never a protocol-relative URL.
+ */
+function stripFirstSegment(pathname: string, segment: string): string {
+  return pathname.replace(/^\/+/, "").slice(segment.length).replace(/^\/+/, "/") || "/";
+}
+
+/**
+ * Rewrites the locale prefix of a path for another locale, following the routing policy.
+ * Without a policy, the path gets a prefix only if it already had one.
+ *
+ * @param pathname - Current path
+ * @param locale - Locale to switch to
+ * @param languages - Supported locale tags
+ * @param defaultLanguage - Default locale
+ * @param prefix - Routing prefix policy, if routing is configured
+ * @returns The path for the new locale
+ * @example
+ * switchLocalePath("/es/dashboard", "en", ["en", "es"], "en", "except-default") // "/dashboard"
+ * switchLocalePath("/dashboard", "es", ["en", "es"], "en", "except-default") // "/es/dashboard"
+ */
+export function switchLocalePath(
+  pathname: string,
+  locale: string,
+  languages: string[],
+  defaultLanguage: string,
+  prefix?: RoutingConfig["prefix"],
+): string {
+  const segment = pathname.split("/").filter(Boolean)[0];
+  const hasPrefix = findSupportedLocale(segment, languages) !== null;
+  const strippedPath = hasPrefix
+    ? stripFirstSegment(pathname, segment)
+    : pathname.replace(/^\/+/, "/");
+
+  const prefixed = prefix === undefined
+    ? hasPrefix
+    : prefix === "always" || (prefix === "except-default" && locale !== defaultLanguage);
+  return prefixed ? addLocalePrefix(strippedPath, locale) : strippedPath;
+}
+
+/**
+ * Applies locale prefix routing to a URL.
+ *
+ * @param url - The request URL
+ * @param detectedLocale - Locale chosen by the detection strategies
+ * @param languages - Supported locale tags
+ * @param defaultLanguage - Default locale
+ * @param config - Routing configuration
+ * @returns What the middleware should do with the request
+ *
+ * @example
+ * resolveLocaleRoute(new URL("https://x.dev/dashboard?tab=2"), "es", ["en", "es"], "en", { prefix: "always" })
+ * // { type: "redirect", location: "/es/dashboard?tab=2" }
+ */
+export function resolveLocaleRoute(
+  url: URL,
+  detectedLocale: string,
+  languages: string[],
+  defaultLanguage: string,
+  config: RoutingConfig,
+): RoutingDecision {
+  const { pathname, search } = url;
+  const ignored = [...INTERNAL_PATHS, ...(config.ignorePaths ?? [])];
+  if (
+    FILE_PATH_PATTERN.test(pathname) ||
+    ignored.some((prefix) => pathname === prefix || pathname.startsWith(prefix))
+  ) {
+    return { type: "render", locale: null };
+  }
+
+  const segment = pathname.split("/").filter(Boolean)[0];
+  const pathLocale = findSupportedLocale(segment, languages);
+  // Path without the first segment, safe to redirect to
+  const strippedPath = segment ? stripFirstSegment(pathname, segment) : pathname;
+
+  const redirect = (path: string): RoutingDecision => ({
+    type: "redirect",
+    location: `${path}${search}`,
+  });
+
+  // Locale-like first segment that is not supported (e.g., /fr/dashboard)
+  if (
+    !pathLocale && segment &&
+    (config.localePattern ? config.localePattern.test(segment) : isKnownLocaleTag(segment))
+  ) {
+    const policy = config.unknownLocale ?? "pass-through";
+    if (policy === "not-found") return { type: "not-found" };
+    if (policy === "redirect") {
+      const prefixed = config.prefix === "always" ||
+        (config.prefix === "except-default" && detectedLocale !== defaultLanguage);
+      return redirect(prefixed ? addLocalePrefix(strippedPath, detectedLocale) : strippedPath);
+    }
+  }
+
+  switch (config.prefix) {
+    case "always":
+      if (pathLocale) {
+        // Canonical casing: /pt-br/... → /pt-BR/...
+        return segment === pathLocale
+          ? { type: "render", locale: pathLocale }
+          : redirect(addLocalePrefix(strippedPath, pathLocale));
+      }
+      return redirect(addLocalePrefix(pathname, detectedLocale));
+
+    case "except-default":
+      if (pathLocale === defaultLanguage) return redirect(strippedPath);
+      if (pathLocale) {
+        return segment === pathLocale
+          ? { type: "render", locale: pathLocale }
+          : redirect(addLocalePrefix(strippedPath, pathLocale));
+      }
+      // Unprefixed URLs always render the default locale
+      return { type: "render", locale: defaultLanguage };
+
+    case "never":
+      return pathLocale ? redirect(strippedPath) : { type: "render", locale: null };
+  }
+}
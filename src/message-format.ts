@@ -0,0 +1,428 @@
+import { createFormatter, type FormatPresets } from "./formatters.ts";
+import { getPlaceholderNames, type InterpolationResult } from "./interpolation.ts";
+
+/**
+ * A parsed ICU message: literal text and argument nodes.
+ */
+export type MessageNode =
+  | string
+  | { type: "argument"; name: string; format?: string; style?: string }
+  | { type: "pound" }
+  | { type: "select"; name: string; options: Record<string, MessageNode[]> }
+  | {
+    type: "plural" | "selectordinal";
+    name: string;
+    offset: number;
+    options: Record<string, MessageNode[]>;
+  };
+
+/**
+ * A compiled message that can be formatted with params.
+ */
+export type CompiledMessage = (params?: Record<string, unknown>) => InterpolationResult;
+
+/**
+ * Error thrown when a message has invalid ICU MessageFormat syntax.
+ */
+export class MessageFormatError extends Error {
+  /** Character offset in the message where the error was found */
+  readonly offset: number;
+
+  constructor(message: string, offset: number) {
+    super(`${message} at position ${offset}`);
+    this.name = "MessageFormatError";
+    this.offset = offset;
+  }
+}
+
+// Detects {name, plural|select|selectordinal, ...} and {name, number|date|time} arguments
+const ICU_PATTERN =
+  /\{\s*[\w.-]+\s*,\s*(?:(?:plural|select|selectordinal)\s*,|(?:number|date|time)\s*[,}])/;
+
+/**
+ * Checks whether a message uses ICU plural/select or number/date/time syntax.
+ * Messages without it are handled by the simpler `interpolate()`.
+ * @param message - The translated text
+ * @returns true if the message contains a plural, select, selectordinal, number, date
+ * or time argument
+ */
+export function isIcuMessage(message: string): boolean {
+  return ICU_PATTERN.test(message);
+}
+
+/**
+ * TypeScript type of a message param: plural, selectordinal and number arguments take numbers,
+ * date and time arguments take dates, select arguments take strings, plain placeholders take
+ * strings or numbers.
+ */
+export type MessageParamType = "number" | "string" | "string | number" | "Date | number | string";
+
+/**
+ * Lists the params a message expects, for both plain placeholders and ICU arguments.
+ * Messages with invalid ICU syntax return the params found before the error.
+ *
+ * @param message - The translated text
+ * @returns Map of param name -> expected type, in order of first appearance
+ *
+ * @example
+ * getMessageParams("{count, plural, one {# file} other {# files}} by {user}")
+ * // Map { "count" => "number", "user" => "string | number" }
+ */
+export function getMessageParams(message: string): Map<string, MessageParamType> {
+  const params = new Map<string, MessageParamType>();
+  const add = (name: string, type: MessageParamType) => {
+    // A specific type wins over the generic one
+    if (!params.has(name) || params.get(name) === "string | number") params.set(name, type);
+  };
+
+  if (!isIcuMessage(message)) {
+    for (const name of getPlaceholderNames(message)) add(name, "string | number");
+    return params;
+  }
+
+  const walk = (nodes: MessageNode[]) => {
+    for (const node of nodes) {
+      if (typeof node === "string" || node.type === "pound") continue;
+      if (node.type === "argument") {
+        add(
+          node.name,
+          node.format === "number"
+            ? "number"
+            : node.format === "date" || node.format === "time"
+            ? "Date | number | string"
+            : "string | number",
+        );
+      } else {
+        add(node.name, node.type === "select" ? "string" : "number");
+        Object.values(node.options).forEach(walk);
+      }
+    }
+  };
+
+  try {
+    walk(parseMessage(message));
+  } catch {
+    // Invalid ICU messages are reported when locale files are loaded
+  }
+  return params;
+}
+
+/**
+ * Parses an ICU MessageFormat string.
+ * Supports `{name}`, `{{name}}`, `{name, type, style}`, `plural` (with `offset:` and `=N`),
+ * `select`, `selectordinal`, `#`, apostrophe quoting and backslash-escaped braces.
+ *
+ * @param message - The message to parse
+ * @returns The parsed message nodes
+ * @throws MessageFormatError if the syntax is invalid
+ *
+ * @example
+ * parseMessage("{count, plural, one {# item} other {# items}}")
+ */
+export function parseMessage(message: string): MessageNode[] {
+  let pos = 0;
+
+  const error = (text: string): never => {
+    throw new MessageFormatError(text, pos);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < message.length && /\s/.test(message[pos])) pos++;
+  };
+
+  const readIdentifier = (): string => {
+    const match = /^[\w.-]+/.exec(message.slice(pos));
+    if (!match) error("Expected argument name");
+    pos += match![0].length;
+    return match![0];
+  };
+
+  const expect = (char: string) => {
+    if (message[pos] !== char) error(`Expected "${char}"`);
+    pos++;
+  };
+
+  const parseOptions = (
+    allowExact: boolean,
+    inPlural: boolean,
+  ): Record<string, MessageNode[]> => {
+    const options: Record<string, MessageNode[]> = {};
+    skipWhitespace();
+
+    while (pos < message.length && message[pos] !== "}") {
+      const match = (allowExact ? /^(=\d+|[\w-]+)/ : /^[\w-]+/).exec(message.slice(pos));
+      if (!match) error("Expected selector");
+      pos += match![0].length;
+
+      skipWhitespace();
+      expect("{");
+      options[match![0]] = parseNodes(true, inPlural);
+      expect("}");
+      skipWhitespace();
+    }
+
+    if (!("other" in options)) error('Missing "other" option');
+    return options;
+  };
+
+  const parseArgument = (inPlural: boolean): MessageNode => {
+    const start = pos;
+    pos++; // {
+
+    // {{name}} shorthand
+    if (message[pos] === "{") {
+      pos++;
+      skipWhitespace();
+      const name = readIdentifier();
+      skipWhitespace();
+      expect("}");
+      expect("}");
+      return { type: "argument", name };
+    }
+
+    skipWhitespace();
+    const name = readIdentifier();
+    skipWhitespace();
+
+    if (message[pos] === "}") {
+      pos++;
+      return { type: "argument", name };
+    }
+
+    expect(",");
+    skipWhitespace();
+    const format = readIdentifier();
+    skipWhitespace();
+
+    if (format === "plural" || format === "selectordinal") {
+      expect(",");
+      skipWhitespace();
+      let offset = 0;
+      const offsetMatch = /^offset:\s*(\d+)/.exec(message.slice(pos));
+      if (offsetMatch) {
+        offset = Number(offsetMatch[1]);
+        pos += offsetMatch[0].length;
+      }
+      const options = parseOptions(true, true);
+      expect("}");
+      return { type: format, name, offset, options };
+    }
+
+    if (format === "select") {
+      expect(",");
+      const options = parseOptions(false, inPlural);
+      expect("}");
+      return { type: "select", name, options };
+    }
+
+    if (message[pos] === "}") {
+      pos++;
+      return { type: "argument", name, format };
+    }
+
+    expect(",");
+    const styleEnd = message.indexOf("}", pos);
+    if (styleEnd === -1) {
+      pos = start;
+      error("Unclosed argument");
+    }
+    const style = message.slice(pos, styleEnd).trim();
+    pos = styleEnd + 1;
+    return { type: "argument", name, format, style };
+  };
+
+  // Parses text and arguments until an unmatched "}" (when nested) or the end of the message
+  function parseNodes(nested: boolean, inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = "";
+
+    const flush = () => {
+      if (text) nodes.push(text);
+      text = "";
+    };
+
+    while (pos < message.length) {
+      const char = message[pos];
+
+      if (char === "\\" && (message[pos + 1] === "{" || message[pos + 1] === "}")) {
+        text += message[pos + 1];
+        pos += 2;
+      } else if (char === "'") {
+        const next = message[pos + 1];
+        if (next === "'") {
+          text += "'";
+          pos += 2;
+        } else if (next === "{" || next === "}" || next === "|" || (inPlural && next === "#")) {
+          // Quoted literal text until the next unpaired apostrophe
+          pos++;
+          while (pos < message.length) {
+            if (message[pos] === "'") {
+              if (message[pos + 1] === "'") {
+                text += "'";
+                pos += 2;
+                continue;
+              }
+              pos++;
+              break;
+            }
+            text += message[pos++];
+          }
+        } else {
+          text += char;
+          pos++;
+        }
+      } else if (char === "{") {
+        flush();
+        nodes.push(parseArgument(inPlural));
+      } else if (char === "}") {
+        if (!nested) error('Unexpected "}"');
+        break;
+      } else if (char === "#" && inPlural) {
+        flush();
+        nodes.push({ type: "pound" });
+        pos++;
+      } else {
+        text += char;
+        pos++;
+      }
+    }
+
+    if (nested && pos >= message.length) error('Expected "}"');
+    flush();
+    return nodes;
+  }
+
+  return parseNodes(false, false);
+}
+
+const pluralRulesCache = new Map<string, Intl.PluralRules>();
+
+function getPluralRules(locale: string | undefined, type: Intl.PluralRuleType): Intl.PluralRules {
+  const cacheKey = `${locale ?? ""}:${type}`;
+  let rules = pluralRulesCache.get(cacheKey);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale, { type });
+    pluralRulesCache.set(cacheKey, rules);
+  }
+  return rules;
+}
+
+/**
+ * Compiles parsed message nodes into a formatter bound to a locale.
+ * Plural categories come from `Intl.PluralRules` for the locale. `number`, `date` and `time`
+ * arguments use the locale formatters; their style names a preset (`{amount, number, currency}`).
+ *
+ * @param nodes - Nodes returned by `parseMessage()`
+ * @param locale - Locale used for plural rules, number and date formatting
+ * @param formats - Named format presets
+ * @returns A function that formats the message with params
+ */
+export function compileMessage(
+  nodes: MessageNode[],
+  locale?: string,
+  formats?: FormatPresets,
+): CompiledMessage {
+  const fmt = createFormatter(locale, formats);
+
+  return (params = {}) => {
+    const missing: string[] = [];
+    const used = new Set<string>();
+
+    const getValue = (name: string): unknown => {
+      // Own properties only, so "{constructor}" isn't filled from the prototype
+      const value = Object.hasOwn(params, name) ? params[name] : undefined;
+      if (value === undefined || value === null) {
+        missing.push(name);
+        return undefined;
+      }
+      used.add(name);
+      return value;
+    };
+
+    const format = (parts: MessageNode[], pluralValue?: number): string => {
+      let result = "";
+
+      for (const node of parts) {
+        if (typeof node === "string") {
+          result += node;
+        } else if (node.type === "pound") {
+          result += pluralValue === undefined ? "#" : fmt.number(pluralValue);
+        } else if (node.type === "argument") {
+          const value = getValue(node.name);
+          if (value === undefined) {
+            result += `{${node.name}}`;
+          } else if (
+            node.format === "number" && (typeof value === "number" || typeof value === "bigint")
+          ) {
+            result += fmt.number(value, node.style);
+          } else if (
+            (node.format === "date" || node.format === "time") &&
+            (value instanceof Date || typeof value === "number" || typeof value === "string")
+          ) {
+            result += fmt[node.format](value, node.style);
+          } else {
+            result += String(value);
+          }
+        } else if (node.type === "select") {
+          const value = getValue(node.name);
+          const option = value === undefined ? undefined : node.options[String(value)];
+          result += format(option ?? node.options.other, pluralValue);
+        } else {
+          const value = getValue(node.name);
+          const count = Number(value);
+
+          if (value === undefined || Number.isNaN(count)) {
+            result += format(node.options.other);
+            continue;
+          }
+
+          const exact = node.options[`=${count}`];
+          const category = getPluralRules(
+            locale,
+            node.type === "plural" ? "cardinal" : "ordinal",
+          ).select(count - node.offset);
+
+          result += format(
+            exact ?? node.options[category] ?? node.options.other,
+            count - node.offset,
+          );
+        }
+      }
+
+      return result;
+    };
+
+    return { text: format(nodes), missing, used };
+  };
+}
+
+const compiledMessages = new Map<
+  string,
+  { message: string; formats?: FormatPresets; compiled: CompiledMessage }
+>();
+
+/**
+ * Returns the compiled formatter for a message, reusing it across calls.
+ * Messages are cached per key and locale; the cache entry is rebuilt if the text changes.
+ *
+ * @param key - Translation key the message belongs to
+ * @param message - The ICU message text
+ * @param locale - Locale used for plural rules and formatting
+ * @param formats - Named format presets; the cache entry is rebuilt if they change
+ * @returns The compiled message
+ * @throws MessageFormatError if the syntax is invalid
+ */
+export function getCompiledMessage(
+  key: string,
+  message: string,
+  locale?: string,
+  formats?: FormatPresets,
+): CompiledMessage {
+  const cacheKey = `${locale ?? ""}\u0000${key}`;
+  const cached = compiledMessages.get(cacheKey);
+  if (cached?.message === message && cached.formats === formats) return cached.compiled;
+
+  const compiled = compileMessage(parseMessage(message), locale, formats);
+  compiledMessages.set(cacheKey, { message, formats, compiled });
+  return compiled;
+}
@@ -0,0 +1,64 @@
+import { findSupportedLocale } from "./locale-negotiation.ts";
+
+/**
+ * Base path of the endpoint serving namespaces as JSON: `/_i18n/{locale}/{namespace}.json`.
+ */
+export const NAMESPACE_ENDPOINT_PATH = "/_i18n";
+
+/**
+ * Dot-separated namespace segments, as derived from file paths.
+ */
+export const NAMESPACE_PATTERN = /^[\w-]+(?:\.[\w-]+)*$/;
+
+/**
+ * Reads the locale and namespace of a namespace endpoint request.
+ * @param pathname - Request path (e.g., "/_i18n/pt-br/features.reports.json")
+ * @param languages - Supported locales
+ * @returns The supported locale (as configured) and namespace, or null if the path doesn't
+ * name a supported locale and a valid namespace
+ * @example
+ * parseNamespacePath("/_i18n/pt-br/features.reports.json", ["en", "pt-BR"])
+ * // { locale: "pt-BR", namespace: "features.reports" }
+ */
+export function parseNamespacePath(
+  pathname: string,
+  languages: string[],
+): { locale: string; namespace: string } | null {
+  const match = new RegExp(`^${NAMESPACE_ENDPOINT_PATH}/([^/]+)/([^/]+)\\.json$`).exec(pathname);
+  if (!match) return null;
+
+  let locale: string | null;
+  let namespace: string;
+  try {
+    locale = findSupportedLocale(decodeURIComponent(match[1]), languages);
+    namespace = decodeURIComponent(match[2]);
+  } catch {
+    // Malformed escape sequence (e.g., "%E0")
+    return null;
+  }
+  return locale && NAMESPACE_PATTERN.test(namespace) ? { locale, namespace } : null;
+}
+
+/**
+ * Builds the URL of a namespace on the endpoint.
+ * @param locale - Locale code
+ * @param namespace - Dot-separated namespace
+ * @returns The endpoint URL (e.g., "/_i18n/es/features.reports.json")
+ */
+export function getNamespaceUrl(locale: string, namespace: string): string {
+  return `${NAMESPACE_ENDPOINT_PATH}/${encodeURIComponent(locale)}/${
+    encodeURIComponent(namespace)
+  }.json`;
+}
+
+/**
+ * Checks whether a namespace is part of the loaded ones.
+ * An empty list means every namespace was loaded.
+ * @param loaded - Loaded namespaces
+ * @param namespace - Namespace to look for
+ * @returns true if the namespace or one of its parents is loaded
+ */
+export function isNamespaceLoaded(loaded: string[], namespace: string): boolean {
+  return loaded.length === 0 ||
+    loaded.some((ns) => namespace === ns || namespace.startsWith(`${ns}.`));
+}
@@ -0,0 +1,271 @@
+import { dirname, join, relative, SEPARATOR } from "@std/path";
+import { DEFAULT_EXTENSIONS, type DynamicKey, listSourceFiles, scanSource } from "./key-scanner.ts";
+import { isNamespaceLoaded } from "./namespace-endpoint.ts";
+
+/**
+ * Namespaces used by the islands of each route, generated by `buildNamespaceManifest()`.
+ * Passed as `clientLoad.manifest`, it replaces hand-written route patterns.
+ *
+ * @example
+ * ```json
+ * {
+ *   "routes": {
+ *     "/*": ["common.nav"],
+ *     "/projects/:id": ["features.projects"],
+ *     "/settings{/*}?": ["features.settings"]
+ *   }
+ * }
+ * ```
+ */
+export interface NamespaceManifest {
+  /** `URLPattern` pathname of each route and layout, mapped to the namespaces its islands use */
+  routes: Record<string, string[]>;
+}
+
+/**
+ * Options for building a namespace manifest.
+ */
+export interface ManifestOptions {
+  /**
+   * Project root. `@/` imports resolve from here.
+   * @default "."
+   */
+  rootDir?: string;
+  /**
+   * Fresh routes directory, relative to `rootDir`.
+   * @default "routes"
+   */
+  routesDir?: string;
+  /**
+   * Islands directory, relative to `rootDir`. Files in `(_islands)` folders are islands too.
+   * @default "islands"
+   */
+  islandsDir?: string;
+  /**
+   * File extensions of routes.
+   * @default [".ts", ".tsx", ".js", ".jsx"]
+   */
+  extensions?: string[];
+}
+
+/**
+ * A built manifest, with the island calls it couldn't assign to a namespace.
+ */
+export interface ManifestResult {
+  manifest: NamespaceManifest;
+  /** Dynamic keys in islands without a static namespace (e.g., `t(key)`) */
+  unresolved: DynamicKey[];
+}
+
+// Route files that don't render a page of their own
+const SKIPPED_ROUTE_FILES = new Set(["_middleware", "_404", "_500", "_error"]);
+
+// import x from "./a.tsx", export { x } from "./a.tsx", import "./a.tsx", import("./a.tsx")
+const IMPORT_PATTERN =
+  /\b(?:import|export)\s+(type\s+)?(?:[\w$*{}\s,]+?\s+from\s+)?["']([^"']+)["']|\bimport\s*\(\s*["']([^"']+)["']\s*\)/g;
+
+/**
+ * Converts a route file path to the `URLPattern` pathname Fresh serves it at.
+ * @param file - Path relative to the routes directory (e.g., "blog/[slug].tsx")
+ * @returns The pattern (e.g., "/blog/:slug")
+ * @example
+ * routeFileToPattern("(marketing)/index.tsx") // "/"
+ * routeFileToPattern("docs/[...path].tsx") // "/docs/:path*"
+ * routeFileToPattern("[[lang]]/about.tsx") // "{/:lang}?/about"
+ */
+export function routeFileToPattern(file: string): string {
+  const segments = file.replace(/\.[^./]+$/, "").split(/[\\/]/)
+    // Route groups don't appear in URLs
+    .filter((segment) => !/^\(.*\)$/.test(segment));
+  if (segments[segments.length - 1] === "index") segments.pop();
+
+  const pattern = segments.map((segment) => {
+    let match;
+    if ((match = /^\[\[(\w+)\]\]$/.exec(segment))) return `{/:${match[1]}}?`;
+    if ((match = /^\[\.\.\.(\w+)\]$/.exec(segment))) return `/:${match[1]}*`;
+    const escaped = segment.replace(/[:*?+(){}\\]/g, "\\$&");
+    return `/${escaped.replace(/\[(\w+)\]/g, ":$1")}`;
+  }).join("");
+
+  return pattern || "/";
+}
+
+/**
+ * Namespace to load for a key: the key without its last segment.
+ * @param key - Translation key, or the static prefix of a dynamic one
+ * @param subtree - The key is read as a prefix (`t.raw()`), so it is the namespace itself
+ * @returns The namespace, or an empty string when the key has no static part
+ */
+export function getKeyNamespace(key: string, subtree = false): string {
+  if (subtree) return key;
+  const end = key.lastIndexOf(".");
+  return end === -1 ? key : key.slice(0, end);
+}
+
+/**
+ * Keeps only namespaces not already covered by a parent in the list, sorted.
+ */
+function collapseNamespaces(namespaces: Set<string>): string[] {
+  const sorted = [...namespaces].sort();
+  const result: string[] = [];
+  for (const namespace of sorted) {
+    if (!result.some((parent) => isNamespaceLoaded([parent], namespace))) {
+      result.push(namespace);
+    }
+  }
+  return result;
+}
+
+/**
+ * Builds a namespace manifest by following the imports of each Fresh route to the islands it
+ * renders, and collecting the translation keys those islands (and everything they import) use.
+ * Keys of namespaced translators (`createNamespacedTranslator(t, "common.actions")`) count
+ * with their prefix, and dynamic keys with their static start (`` t(`status.${s}`) ``).
+ *
+ * Layouts map to every path under their folder and `_app` to every path; the middleware merges
+ * their namespaces with the page's. Relative and `@/` imports are followed.
+ *
+ * @param options - Project layout
+ * @returns The manifest, and dynamic keys that couldn't be assigned to a namespace
+ *
+ * @example
+ * ```typescript
+ * const { manifest } = await buildNamespaceManifest({ rootDir: "." });
+ * manifest.routes["/projects/:id"]; // ["features.projects"]
+ * ```
+ */
+export async function buildNamespaceManifest(
+  options: ManifestOptions = {},
+): Promise<ManifestResult> {
+  const {
+    rootDir = ".",
+    routesDir = "routes",
+    islandsDir = "islands",
+    extensions = DEFAULT_EXTENSIONS,
+  } = options;
+  const islandsPath = join(rootDir, islandsDir);
+  const sources = new Map<string, string | null>();
+  const unresolved = new Map<string, DynamicKey>();
+
+  const readSource = async (path: string) => {
+    if (!sources.has(path)) {
+      sources.set(path, await Deno.readTextFile(path).catch(() => null));
+    }
+    return sources.get(path)!;
+  };
+
+  const isIsland = (path: string) =>
+    !relative(islandsPath, path).startsWith("..") || path.includes(`${SEPARATOR}(_islands)`);
+
+  const resolveImport = (from: string, specifier: string): string | null => {
+    // Styles, JSON and other assets don't render islands
+    if (!extensions.some((extension) => specifier.endsWith(extension))) return null;
+    if (specifier.startsWith("./") || specifier.startsWith("../")) {
+      return join(dirname(from), specifier);
+    }
+    if (specifier.startsWith("@/")) return join(rootDir, specifier.slice(2));
+    return null; // Packages don't render project islands
+  };
+
+  // Collects the namespaces of the islands a file renders, or of the whole file once inside one
+  const collect = async (
+    path: string,
+    client: boolean,
+    visited: Set<string>,
+    namespaces: Set<string>,
+  ): Promise<void> => {
+    const inClient = client || isIsland(path);
+    const visitKey = `${inClient}:${path}`;
+    if (visited.has(visitKey)) return;
+    visited.add(visitKey);
+
+    const source = await readSource(path);
+    if (source === null) return;
+
+    if (inClient) {
+      const { keys, dynamicKeys } = scanSource(source, relative(rootDir, path));
+      for (const { key, subtree } of keys) {
+        namespaces.add(getKeyNamespace(key, subtree));
+      }
+      for (const dynamicKey of dynamicKeys) {
+        const namespace = getKeyNamespace(dynamicKey.prefix);
+        if (dynamicKey.prefix.includes(".") && namespace) {
+          namespaces.add(namespace);
+        } else {
+          const { file, line, column } = dynamicKey;
+          unresolved.set(`${file}:${line}:${column}`, dynamicKey);
+        }
+      }
+    }
+
+    for (const [, typeOnly, specifier, dynamicSpecifier] of source.matchAll(IMPORT_PATTERN)) {
+      if (typeOnly) continue;
+      const resolved = resolveImport(path, specifier ?? dynamicSpecifier);
+      if (resolved) await collect(resolved, inClient, visited, namespaces);
+    }
+  };
+
+  const routes: Record<string, Set<string>> = {};
+  const routesPath = join(rootDir, routesDir);
+  for (const path of await listSourceFiles(routesPath, extensions)) {
+    const file = relative(routesPath, path);
+    const segments = file.split(/[\\/]/);
+    const name = segments[segments.length - 1].replace(/\.[^.]+$/, "");
+
+    // Colocated islands and components, and files that aren't pages
+    if (segments.some((segment) => segment.startsWith("(_")) || SKIPPED_ROUTE_FILES.has(name)) {
+      continue;
+    }
+
+    let pattern: string;
+    if (name === "_app" || name === "_layout") {
+      const base = routeFileToPattern(join(dirname(file), "index"));
+      pattern = base === "/" ? "/*" : `${base}{/*}?`;
+    } else if (name.startsWith("_")) {
+      continue;
+    } else {
+      pattern = routeFileToPattern(file);
+    }
+
+    const namespaces = routes[pattern] ??= new Set();
+    await collect(path, false, new Set(), namespaces);
+  }
+
+  const manifest: NamespaceManifest = { routes: {} };
+  for (const pattern of Object.keys(routes).sort()) {
+    manifest.routes[pattern] = collapseNamespaces(routes[pattern]);
+  }
+
+  return { manifest, unresolved: [...unresolved.values()] };
+}
+
+/**
+ * Builds a namespace manifest and writes it as JSON.
+ * Only writes when the content changed, so file watchers aren't triggered needlessly.
+ *
+ * @param options - Project layout and the output file path
+ * @returns The build result, and whether the file was written
+ *
+ * @example
+ * ```typescript
+ * // Run before `vite build`, then pass the file as `clientLoad.manifest`
+ * await writeNamespaceManifest({ outFile: "./i18n-manifest.json" });
+ * ```
+ */
+export async function writeNamespaceManifest(
+  options: ManifestOptions & { outFile: string },
+): Promise<ManifestResult & { written: boolean }> {
+  const result = await buildNamespaceManifest(options);
+  const content = `${JSON.stringify(result.manifest, null, 2)}\n`;
+
+  try {
+    if (await Deno.readTextFile(options.outFile) === content) {
+      return { ...result, written: false };
+    }
+  } catch {
+    // File doesn't exist yet
+  }
+
+  await Deno.writeTextFile(options.outFile, content);
+  return { ...result, written: true };
+}
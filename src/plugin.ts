@@ -1,7 +1,57 @@
-import { join, relative } from "@std/path";
-import { type Middleware } from "fresh";
+import { HttpError, type Middleware } from "fresh";
 import { translate } from "./translator.ts";
-import type { ClientLoadConfig, TranslationState } from "./types.ts";
+import {
+  createTranslationCache,
+  type ResolvedTranslations,
+  type TranslationCache,
+} from "./translation-cache.ts";
+import { findSupportedLocale, getFallbackChain } from "./locale-negotiation.ts";
+import { type DetectionConfig, detectLocale, getPersistCookie } from "./locale-detection.ts";
+import { resolveLocaleRoute, type RoutingConfig } from "./locale-routing.ts";
+import {
+  createHotReloadChannel,
+  getHotReloadScript,
+  HOT_RELOAD_PATH,
+  type LocaleWatcher,
+  watchLocales,
+} from "./hot-reload.ts";
+import { resolveLoaders, type TranslationLoaders } from "./file-loaders.ts";
+import { createFormatter, type FormatPresets } from "./formatters.ts";
+import { TranslationFileError } from "./file-diagnostics.ts";
+import { createErrorOverlayResponse } from "./error-overlay.ts";
+import { NAMESPACE_ENDPOINT_PATH, parseNamespacePath } from "./namespace-endpoint.ts";
+import { getNonceAttribute, injectIntoResponse } from "./html-injection.ts";
+import {
+  type ClientDiagnostics,
+  DIAGNOSTICS_ELEMENT_ID,
+  formatMissingKeyMessage,
+  getAvailableNamespaces,
+  MISSING_KEY_REPORT_PATH,
+  parseMissingKeyReport,
+} from "./dev-diagnostics.ts";
+import {
+  type CompiledRoute,
+  compileRoutes,
+  matchRoutes,
+  normalizeUrlPath,
+} from "./route-patterns.ts";
+import {
+  CLIENT_DATA_ELEMENT_ID,
+  type ClientBundle,
+  getBundleUrl,
+  getClientBundle,
+  isBundlePath,
+  parseBundleUrl,
+  serializeClientData,
+} from "./client-bundle.ts";
+import { runWithTranslationData } from "./request-scope.ts";
+import type {
+  ClientLoadConfig,
+  ClientTranslationData,
+  FreshContext,
+  I18nBaseState,
+  TranslationState,
+} from "./types.ts";
 
 export interface FallbackConfig {
   /**
@@ -14,17 +64,30 @@ export interface FallbackConfig {
    * @default false
    */
   showIndicator?: boolean;
+  /**
+   * Fallback chain per locale, most preferred first, walked key by key before `defaultLanguage`.
+   * Locales without an entry fall back to their parent tags (`pt-BR` → `pt`), then to
+   * `defaultLanguage`. Locales that aren't in `languages` are skipped.
+   *
+   * @example
+   * chains: {
+   *   "pt-BR": ["pt-PT"],
+   *   "es-MX": ["es-419", "es"],
+   * }
+   */
+  chains?: Record<string, string[]>;
   /**
    * Custom function to format the fallback text with indicator.
+   * Receives the locale the fallback value came from.
    * @default (text, locale) => `${text} [${locale}]`
    */
-  indicatorFormat?: (text: string, defaultLocale: string) => string;
+  indicatorFormat?: (text: string, fallbackLocale: string) => string;
   /**
    * Function to determine if a specific fallback text should show an indicator.
    * Allows conditional indicator display based on text length or other criteria.
    * If not provided, indicator will always show when showIndicator is enabled.
    * @param text - The fallback text content
-   * @param locale - The default locale being used for fallback
+   * @param locale - The locale the fallback value came from
    * @returns true to show indicator, false to hide it
    * @example
    * shouldShowIndicator: (text, locale) => {
@@ -42,12 +105,21 @@ export interface FallbackConfig {
   applyOnDev?: boolean;
 }
 
+export interface HotReloadConfig {
+  /**
+   * Reload open pages when the files of their locale change.
+   * Pages subscribe to a Server-Sent Events endpoint at `/_i18n/hot-reload`.
+   * @default false
+   */
+  notifyClients?: boolean;
+}
+
 /**
  * Configuration options for the i18n plugin.
  * Extends the basic I18nOptions with additional features.
  */
 export interface I18nOptions {
-  /** Array of supported language codes (e.g., ["en", "es", "ja"]) */
+  /** Array of supported BCP 47 language tags (e.g., ["en", "es", "pt-BR", "pt-PT"]) */
   languages: string[];
   /** Default language code to use when no preference is detected */
   defaultLanguage: string;
@@ -67,6 +139,7 @@ export interface I18nOptions {
    *
    * @property {boolean} [enabled=false] - Enable fallback to default language when translations are missing.
    * @property {boolean} [showIndicator=false] - Show an indicator when displaying fallback content.
+   * @property {object} [chains] - Fallback chain per locale walked before the default language (e.g., `{ "pt-BR": ["pt"] }`).
    * @property {function} [indicatorFormat] - Custom function to format the fallback text with indicator. Default: `(text, locale) => ${text} [${locale}]`
    * @property {function} [shouldShowIndicator] - Function to determine if indicator should be shown for specific text. If not provided, always shows indicator when enabled.
    * @property {boolean} [applyOnDev=false] - Apply fallback behavior in development mode too. If false (default), dev mode always shows [key] for visibility.
@@ -111,178 +184,163 @@ export interface I18nOptions {
    * }
    */
   clientLoad?: ClientLoadConfig;
-}
-
-async function readJsonFile(filePath: string): Promise<Record<string, string>> {
-  try {
-    const content = await Deno.readTextFile(filePath);
-
-    // Skip empty files
-    if (content.trim() === "") {
-      return {};
-    }
-
-    const data = JSON.parse(content) as Record<string, string>;
-    return data;
-  } catch {
-    return {}; // Silently fail for missing files
-  }
-}
-
-/**
- * Converts kebab-case or snake_case strings to camelCase.
- * @param str - The string to convert
- * @returns The camelCased string
- * @example
- * kebabToCamel("pdi-modals") // "pdiModals"
- * kebabToCamel("user_settings") // "userSettings"
- */
-function kebabToCamel(str: string): string {
-  return str.replace(/[-_]([a-z])/g, (_, letter) => letter.toUpperCase());
-}
-
-/**
- * Recursively discovers all JSON translation files in a locale directory.
- * Builds namespace keys from folder/file paths.
- * 
- * @param localeDir - The locale directory to scan (e.g., "locales/en")
- * @param basePath - The base path for relative path calculation (used internally for recursion)
- * @returns Map of namespace -> file path
- * @example
- * // Directory structure:
- * // locales/en/common.json
- * // locales/en/common/actions.json
- * // locales/en/features/navigator/dashboard.json
- * 
- * // Returns:
- * // {
- * //   "common": "locales/en/common.json",
- * //   "common.actions": "locales/en/common/actions.json",
- * //   "features.navigator.dashboard": "locales/en/features/navigator/dashboard.json"
- * // }
- */
-async function discoverTranslationFiles(
-  localeDir: string,
-  basePath: string = localeDir,
-): Promise<Map<string, string>> {
-  const files = new Map<string, string>();
-
-  try {
-    for await (const entry of Deno.readDir(localeDir)) {
-      const fullPath = join(localeDir, entry.name);
-
-      if (entry.isFile && entry.name.endsWith(".json")) {
-        // Build namespace from relative path
-        const relativePath = relative(basePath, fullPath);
-        // Remove .json extension and convert path separators to dots
-        const namespace = relativePath
-          .replace(/\.json$/, "")
-          .split("/")
-          .map(kebabToCamel)
-          .join(".");
-
-        files.set(namespace, fullPath);
-      } else if (entry.isDirectory) {
-        // Recursively scan subdirectories
-        const subFiles = await discoverTranslationFiles(fullPath, basePath);
-        for (const [namespace, path] of subFiles) {
-          files.set(namespace, path);
-        }
-      }
-    }
-  } catch (error) {
-    console.error(`Error discovering translation files in ${localeDir}:`, error);
-  }
-
-  return files;
-}
-
-/**
- * Normalizes a URL path by removing trailing slashes (except for root "/").
- * @param path - The URL path to normalize
- * @returns The normalized path
- */
-function normalizeUrlPath(path: string): string {
-  if (path === "/" || !path.endsWith("/")) return path;
-  return path.slice(0, -1);
+  /**
+   * Load every language into the translation cache when the middleware is created
+   * instead of on the first request for each language.
+   * @default false
+   */
+  preload?: boolean;
+  /**
+   * Development only: watch `localesDir` and re-read changed locale files on the next request.
+   * Ignored when `isProduction()` returns true.
+   *
+   * @example
+   * hotReload: { notifyClients: true }
+   * @default false
+   */
+  hotReload?: boolean | HotReloadConfig;
+  /**
+   * Locale detection strategies, tried in order.
+   * Built-in strategies: "path", "cookie", "query", "header" and "host", plus custom functions.
+   * The winning strategy is exposed as `ctx.state.localeSource`.
+   *
+   * @example
+   * detection: {
+   *   order: ["query", "path", "cookie", "header"],
+   *   queryParam: "lang",
+   *   cookie: { name: "locale" },
+   * }
+   * @default { order: ["path", "header"] }
+   */
+  detection?: DetectionConfig;
+  /**
+   * Locale prefix routing. Redirects keep the query string.
+   * Without this option, URLs are not redirected and any path is rendered in the detected locale.
+   *
+   * @example
+   * routing: {
+   *   prefix: "always", // "/dashboard" → "/es/dashboard"
+   *   unknownLocale: "not-found", // "/fr/dashboard" → 404 when "fr" is not supported
+   * }
+   */
+  routing?: RoutingConfig;
+  /**
+   * Translation file loaders keyed by extension, merged with the built-in ones
+   * (".json", ".json5", ".yaml", ".yml", ".toml" and ".po").
+   * Every format goes through the same namespace and flattening rules, so keys don't depend on it.
+   *
+   * @example
+   * loaders: {
+   *   ".properties": (content) => parseProperties(content),
+   * }
+   */
+  loaders?: TranslationLoaders;
+  /**
+   * Named format presets for `state.fmt`, `useFormatter()` and message arguments
+   * (`{amount, number, currency}`), merged with the built-in ICU styles
+   * (`integer`, `percent`, `compact`, and `short`/`medium`/`long`/`full` dates and times).
+   *
+   * @example
+   * formats: {
+   *   number: { currency: { style: "currency", currency: "EUR" } },
+   *   date: { weekday: { weekday: "long", day: "numeric", month: "long" } },
+   * }
+   */
+  formats?: FormatPresets;
+  /**
+   * Treat malformed locale files as errors: parse errors (with file, line and column),
+   * unreadable files, duplicate keys and non-object roots.
+   * - Development: requests get an error page listing every problem
+   * - Production: every language is loaded at startup and `ready` rejects; await it before
+   *   serving to stop the startup
+   *
+   * When false, malformed files load as empty, as earlier versions did.
+   * @default false
+   */
+  strict?: boolean;
+  /**
+   * Returns the CSP nonce of the request, added to injected script tags so a
+   * `script-src 'nonce-…'` policy allows them. Defaults to `ctx.state.nonce` when it is a string.
+   *
+   * @example
+   * nonce: (ctx) => ctx.state.cspNonce as string
+   */
+  nonce?: (ctx: FreshContext<Record<string, unknown>>) => string | undefined;
 }
 
 /**
- * Matches a URL path against a route pattern with greedy wildcard support.
- * Pattern wildcards (*) match any remaining path segments.
- * 
- * @param urlPath - The URL path to match (e.g., "/indicators/123/edit")
- * @param pattern - The route pattern (e.g., "/indicators/*")
- * @returns true if the URL matches the pattern
- * 
+ * Middleware returned by `i18n()`.
+ * Exposes the translation cache so loaded translations can be invalidated explicitly.
+ *
  * @example
- * matchRoutePattern("/indicators/123", "/indicators/*") // true
- * matchRoutePattern("/indicators/123/edit", "/indicators/*") // true
- * matchRoutePattern("/matrix/indicators/456", "/indicators/*") // false
- * matchRoutePattern("/matrix/indicators/456", "/matrix/indicators/*") // true
+ * ```typescript
+ * const i18nMiddleware = i18n({ languages: ["en", "es"], defaultLanguage: "en", localesDir: "./locales" });
+ * app.use(i18nMiddleware);
+ *
+ * // Later, after locale files changed on disk
+ * i18nMiddleware.cache.invalidate("es");
+ * ```
  */
-function matchRoutePattern(urlPath: string, pattern: string): boolean {
-  // Exact match
-  if (urlPath === pattern) return true;
-
-  // If pattern has wildcard
-  if (pattern.includes("*")) {
-    // Get the static prefix (before the *)
-    const prefix = pattern.substring(0, pattern.indexOf("*"));
-    
-    // URL must start with the prefix
-    if (!urlPath.startsWith(prefix)) return false;
-    
-    // Greedy match - everything after prefix matches
-    return true;
-  }
-
-  // No wildcard, exact match only
-  return false;
-}
+export type I18nMiddleware<State> = Middleware<State> & {
+  /** Per-locale translation cache shared by every request */
+  cache: TranslationCache;
+  /**
+   * Settles once startup loading is done (`preload`, or strict mode in production).
+   * Rejects with a `TranslationFileError` when a locale file is malformed. The error is also
+   * logged, so not awaiting it never crashes the process.
+   * @example
+   * await i18nMiddleware.ready; // in main.ts, before serving
+   */
+  ready: Promise<void>;
+  /**
+   * Stops watching locale files (`hotReload`) and ends open hot reload connections.
+   * Call it when the app is recreated, or declare the middleware with `using`.
+   */
+  close(): void;
+  [Symbol.dispose](): void;
+};
 
 /**
  * Determines which translation namespaces to load based on clientLoad configuration.
  * @param pathname - The current URL pathname
  * @param config - The clientLoad configuration
+ * @param routes - `config.manifest` and `config.routes` compiled by `compileRoutes()`
  * @param isDev - Whether running in development mode
- * @returns Array of namespace prefixes to load
+ * @returns Namespace prefixes to load, and the route patterns that matched
  */
 function getClientLoadNamespaces(
   pathname: string,
   config: ClientLoadConfig | undefined,
+  routes: CompiledRoute[],
   isDev: boolean,
-): string[] {
-  if (!config) return []; // No client loading configured
+): { namespaces: string[]; patterns: string[] } {
+  // No client loading configured
+  if (!config) return { namespaces: [], patterns: [] };
 
   const normalizedPath = config.ignoreTrailingSlash
     ? normalizeUrlPath(pathname)
     : pathname;
 
-  const matchedNamespaces: string[] = [...config.always];
-  const matchedPatterns: string[] = [];
-
-  // Check each route pattern
-  for (const [pattern, namespaces] of Object.entries(config.routes)) {
-    const normalizedPattern = config.ignoreTrailingSlash
-      ? normalizeUrlPath(pattern)
-      : pattern;
-
-    if (matchRoutePattern(normalizedPath, normalizedPattern)) {
-      matchedNamespaces.push(...namespaces);
-      matchedPatterns.push(pattern);
-    }
-  }
+  const { namespaces, patterns: matchedPatterns } = matchRoutes(
+    normalizedPath,
+    routes,
+    config.match,
+  );
+  const matchedNamespaces = [...new Set([...config.always, ...namespaces])];
 
   // Warn on overlap in dev mode
+  // Manifest routes overlap by design (layouts and pages)
+  const overlapping = [...new Set(matchedPatterns)]
+    .filter((pattern) => Object.hasOwn(config.routes, pattern));
   if (
     isDev &&
     config.warnOnOverlap !== false &&
-    matchedPatterns.length > 1
+    config.match !== "most-specific" &&
+    overlapping.length > 1
   ) {
     console.warn(
       `⚠️  Multiple clientLoad route patterns matched ${pathname}:`,
-      matchedPatterns,
+      overlapping,
     );
   }
 
@@ -290,14 +348,15 @@ function getClientLoadNamespaces(
   if (matchedPatterns.length === 0) {
     const fallback = config.fallback ?? "always-only";
     if (fallback === "all") {
-      return []; // Empty array signals "load everything"
+      return { namespaces: [], patterns: [] }; // Empty array signals "load everything"
     } else if (fallback === "none") {
-      return ["__SKIP_INJECTION__"]; // Special signal to skip injection entirely
+      // Special signal to skip injection entirely
+      return { namespaces: ["__SKIP_INJECTION__"], patterns: [] };
     }
     // "always-only" - return only the always namespaces (already in array)
   }
 
-  return matchedNamespaces;
+  return { namespaces: matchedNamespaces, patterns: [...new Set(matchedPatterns)] };
 }
 
 /**
@@ -339,63 +398,65 @@ function extractNamespaces(
 }
 
 /**
- * Injects client-side translation data into HTML response.
- * @param html - The HTML response body
- * @param translationData - Translation data to inject
- * @param locale - Current locale
- * @param defaultLocale - Default locale
- * @returns Modified HTML with injected script tag
+ * Creates the script tag that exposes client-side translation data.
+ * @param data - Translations, locales, format presets and namespace details to inject
+ * @param inject - "script" assigns `window.__I18N__`; "json" emits a data block that isn't executed
+ * @param nonce - CSP nonce for the script tag
+ * @returns Script tag with the data
  */
-function injectClientTranslations(
-  html: string,
-  translationData: Record<string, unknown>,
-  locale: string,
-  defaultLocale: string,
+function getClientTranslationsScript(
+  data: ClientTranslationData,
+  inject: ClientLoadConfig["inject"] = "script",
+  nonce?: string,
 ): string {
-  // Escape JSON for safe injection (prevent XSS)
-  const jsonString = JSON.stringify({
-    translations: translationData,
-    locale,
-    defaultLocale,
-  }).replace(/</g, "\\u003c").replace(/>/g, "\\u003e");
+  const json = serializeClientData(data);
+  if (inject === "json") {
+    return `<script type="application/json" id="${CLIENT_DATA_ELEMENT_ID}">${json}</script>`;
+  }
+  return `<script${getNonceAttribute(nonce)}>window.__I18N__=${json};</script>`;
+}
 
-  const scriptTag = `<script>window.__I18N__=${jsonString};</script>`;
+/**
+ * Serves a client bundle. The current hash is immutable; an outdated hash (a page rendered
+ * before locale files changed) gets the current content without long-term caching.
+ * @param req - Bundle request
+ * @param bundle - Current bundle
+ * @param requestedHash - Hash in the requested URL
+ * @returns The script, or 304 when the browser has it already
+ */
+function getBundleResponse(req: Request, bundle: ClientBundle, requestedHash: string): Response {
+  const etag = `"${bundle.hash}"`;
+  const headers = {
+    "Content-Type": "text/javascript; charset=utf-8",
+    "Cache-Control": requestedHash === bundle.hash
+      ? "public, max-age=31536000, immutable"
+      : "no-cache",
+    "ETag": etag,
+  };
 
-  // Inject before closing </head> tag or at start of <body> if no </head>
-  if (html.includes("</head>")) {
-    return html.replace("</head>", `${scriptTag}</head>`);
-  } else if (html.includes("<body")) {
-    return html.replace(/<body([^>]*)>/, `<body$1>${scriptTag}`);
+  if (req.headers.get("if-none-match")?.split(/\s*,\s*/).includes(etag)) {
+    return new Response(null, { status: 304, headers });
   }
-
-  // Fallback: prepend to HTML
-  return scriptTag + html;
+  return new Response(bundle.body, { headers });
 }
 
-function getPreferredLanguage(
-  acceptLanguage: string,
-  supportedLanguages: string[],
-  defaultLanguage: string,
-): string {
-  const languages = acceptLanguage
-    .split(",")
-    .map((lang) => {
-      const [code, qValue] = lang.trim().split(";q=");
-      return {
-        code: code.toLowerCase(),
-        q: qValue ? parseFloat(qValue) : 1.0,
-      };
-    })
-    .sort((a, b) => b.q - a.q);
-
-  for (const lang of languages) {
-    const code = lang.code.split("-")[0];
-    if (supportedLanguages.includes(code)) {
-      return code;
-    }
+/**
+ * Appends a header to a response, copying the response if its headers are immutable.
+ * @param response - The response to modify
+ * @param name - Header name
+ * @param value - Header value
+ * @returns A response with the header appended
+ */
+function withHeader(response: Response, name: string, value: string): Response {
+  try {
+    response.headers.append(name, value);
+    return response;
+  } catch {
+    // Headers of redirects and fetched responses are immutable
+    const copy = new Response(response.body, response);
+    copy.headers.append(name, value);
+    return copy;
   }
-
-  return defaultLanguage;
 }
 
 /**
@@ -405,6 +466,8 @@ function getPreferredLanguage(
  * 
  * @param options - Configuration options for the i18n plugin.
  * @returns Fresh middleware function
+ * @throws TypeError if a clientLoad route pattern is invalid, or if `clientLoad.inject: "json"`
+ *   is combined with `clientLoad.bundle`
  *
  * @example
  * ```typescript
@@ -419,156 +482,245 @@ function getPreferredLanguage(
  * }));
  * ```
  */
-export const i18n = <State extends TranslationState = TranslationState>(
+export const i18n = <State extends I18nBaseState = TranslationState>(
   {
     languages,
     defaultLanguage,
     localesDir,
     isProduction,
     fallback,
-    showKeysInProd = false,    clientLoad,  }: I18nOptions,
-): Middleware<State> => {
+    showKeysInProd = false,
+    clientLoad,
+    preload = false,
+    hotReload = false,
+    detection,
+    routing,
+    loaders,
+    formats,
+    strict = false,
+    nonce,
+  }: I18nOptions,
+): I18nMiddleware<State> => {
   const fallbackConfig: FallbackConfig = {
     enabled: fallback?.enabled ?? false,
     showIndicator: fallback?.showIndicator ?? false,
     indicatorFormat: fallback?.indicatorFormat ??
       ((text: string, locale: string) => `${text} [${locale}]`),
     shouldShowIndicator: fallback?.shouldShowIndicator,
+    chains: fallback?.chains,
     applyOnDev: fallback?.applyOnDev ?? false,
   };
 
-  return async (ctx) => {
-    // Final verification
+  // Translations are loaded once per locale and shared across requests
+  const cache = createTranslationCache({
+    localesDir,
+    defaultLanguage,
+    fallback: fallbackConfig.enabled,
+    fallbackChain: (locale) =>
+      getFallbackChain(locale, languages, defaultLanguage, fallbackConfig.chains),
+    validateMessages: !(isProduction?.() ?? false),
+    loaders,
+    strict,
+  });
+
+  // In production, strict mode loads everything up front so that awaiting `ready` stops the
+  // startup on malformed files. Apps that don't await it only get the error logged.
+  const failFast = strict && (isProduction?.() ?? false);
+  const ready = preload || failFast ? cache.preload(languages) : Promise.resolve();
+  ready.catch((error) => {
+    console.error("❌ Failed to preload translations:", error);
+  });
+
+  // Dev-only: re-read changed locale files and optionally notify open pages
+  const hotReloadConfig: HotReloadConfig | undefined = hotReload === true
+    ? {}
+    : hotReload || undefined;
+  const hotReloadEnabled = hotReloadConfig !== undefined && !(isProduction?.() ?? false);
+  const hotReloadChannel = hotReloadEnabled && hotReloadConfig.notifyClients
+    ? createHotReloadChannel()
+    : undefined;
+
+  let watcher: LocaleWatcher | undefined;
+  if (hotReloadEnabled) {
     try {
-      const finalStat = await Deno.stat(localesDir);
-      if (!finalStat.isDirectory) {
-        throw new Error("Locales directory not found");
-      }
-    } catch {
-      console.error("❌ Could not find locales directory at:", localesDir);
-      return await ctx.next() as Response; // Skip i18n if locales not found
+      watcher = watchLocales(localesDir, (change) => {
+        cache.invalidate(change.locale, change.namespace);
+        hotReloadChannel?.notify(change);
+        console.log(
+          `🔄 Reloaded translations: ${change.locale}${change.namespace ? `/${change.namespace}` : ""}`,
+        );
+      }, undefined, resolveLoaders(loaders));
+    } catch (error) {
+      console.error("❌ Could not watch locales directory at:", localesDir, error);
     }
+  }
 
-    const url = new URL(ctx.req.url);
-    const pathSegments = url.pathname.split("/").filter(Boolean);
+  // Lets islands fetch namespaces that weren't injected
+  const namespaceEndpoint = clientLoad?.endpoint ?? false;
+  // Islands switching locale persist it like the middleware does
+  const persistLocaleCookie = detection?.persist ?? (detection?.order?.includes("cookie") ?? false);
+  // Compiled once: invalid patterns fail when the middleware is created
+  const clientRoutes = clientLoad
+    ? [
+      ...compileRoutes(clientLoad.manifest?.routes ?? {}, clientLoad.ignoreTrailingSlash, true),
+      ...compileRoutes(clientLoad.routes, clientLoad.ignoreTrailingSlash),
+    ]
+    : [];
+  // Serve client data as cacheable scripts instead of inlining it
+  const clientBundles = clientLoad?.bundle ?? false;
+  // Bundles are scripts: they can't be emitted as a JSON data block
+  if (clientBundles && clientLoad?.inject === "json") {
+    throw new TypeError('clientLoad.inject: "json" cannot be combined with clientLoad.bundle');
+  }
+  // Namespaces pages can be injected with, even ones without translations
+  const clientNamespaces = new Set([
+    ...clientLoad?.always ?? [],
+    ...clientRoutes.flatMap((route) => route.namespaces),
+  ]);
+  // Nonce for injected scripts, allowed by a strict Content-Security-Policy
+  const getScriptNonce = (ctx: FreshContext<State>): string | undefined =>
+    nonce ? nonce(ctx) : typeof ctx.state.nonce === "string" ? ctx.state.nonce : undefined;
+
+  /**
+   * Builds the data injected for islands from the full translations of a locale.
+   */
+  const createClientData = (
+    translationData: Record<string, unknown>,
+    locale: string,
+    namespaces: string[],
+  ): ClientTranslationData => ({
+    // Extract only the needed translations
+    translations: extractNamespaces(translationData, namespaces),
+    locale,
+    defaultLocale: defaultLanguage,
+    formats,
+    namespaces,
+    endpoint: namespaceEndpoint ? NAMESPACE_ENDPOINT_PATH : undefined,
+    languages,
+    routing: routing?.prefix,
+    cookie: persistLocaleCookie ? detection?.cookie ?? {} : undefined,
+  });
 
-    // Detect the language from the first path segment
-    let lang = languages.includes(pathSegments[0]) ? pathSegments[0] : null;
+  const middleware: Middleware<State> = async (ctx) => {
+    const url = new URL(ctx.req.url);
 
-    // If no language is detected in the URL, determine the user's preferred language
-    if (!lang) {
-      const acceptLanguage = ctx.req.headers.get("Accept-Language") || "";
-      lang = getPreferredLanguage(acceptLanguage, languages, defaultLanguage);
+    if (hotReloadChannel && url.pathname === HOT_RELOAD_PATH) {
+      return hotReloadChannel.connect();
     }
 
-    // Continue processing with the detected language
-    const rootPath = "/" + pathSegments.slice(1).join("/");
-
-    ctx.state.path = rootPath;
-    ctx.state.locale = lang || defaultLanguage;
+    // Misses reported by islands in development
+    if (
+      clientLoad && url.pathname === MISSING_KEY_REPORT_PATH && ctx.req.method === "POST" &&
+      !(isProduction?.() ?? false)
+    ) {
+      const report = parseMissingKeyReport(await ctx.req.json().catch(() => null));
+      if (!report) {
+        throw new HttpError(400);
+      }
+      console.warn(`⚠️  Island on ${report.path}: ${formatMissingKeyMessage(report)}`);
+      return new Response(null, { status: 204 });
+    }
 
-    // Use a flat structure for translation data to match what the translate function expects
-    const translationData: Record<string, unknown> = {};
-
-    // Helper function to flatten nested objects
-    function flattenObject(
-      obj: Record<string, unknown>,
-      prefix = "",
-    ): Record<string, unknown> {
-      const flattened: Record<string, unknown> = {};
-
-      for (const key in obj) {
-        if (
-          obj[key] !== null && typeof obj[key] === "object" &&
-          !Array.isArray(obj[key])
-        ) {
-          Object.assign(
-            flattened,
-            flattenObject(
-              obj[key] as Record<string, unknown>,
-              `${prefix}${key}.`,
-            ),
-          );
-        } else if (typeof obj[key] === "string") {
-          flattened[`${prefix}${key}`] = obj[key];
-        }
+    if (clientBundles && isBundlePath(url.pathname)) {
+      const bundleRequest = parseBundleUrl(url, languages);
+      const resolved = bundleRequest && await cache.get(bundleRequest.locale);
+      if (!bundleRequest || !resolved) {
+        throw new HttpError(404);
+      }
+      const { locale, namespaces, hash } = bundleRequest;
+      // Only sets of known namespaces: the query names them, so any set could be requested
+      const keys = Object.keys(resolved.data);
+      const isKnown = (namespace: string) =>
+        clientNamespaces.has(namespace) ||
+        keys.some((key) => key === namespace || key.startsWith(`${namespace}.`));
+      if (!namespaces.every(isKnown)) {
+        throw new HttpError(404);
       }
+      const bundle = await getClientBundle(
+        createClientData(resolved.data, locale, namespaces),
+        resolved.data,
+      );
+      return getBundleResponse(ctx.req, bundle, hash);
+    }
 
-      return flattened;
+    if (namespaceEndpoint && url.pathname.startsWith(`${NAMESPACE_ENDPOINT_PATH}/`)) {
+      const request = parseNamespacePath(url.pathname, languages);
+      const resolved = request && await cache.get(request.locale);
+      const data = request && resolved ? extractNamespaces(resolved.data, [request.namespace]) : {};
+      if (Object.keys(data).length === 0) {
+        throw new HttpError(404);
+      }
+      return Response.json(data, { headers: { "Cache-Control": "no-cache" } });
     }
+    const pathSegments = url.pathname.split("/").filter(Boolean);
 
-    const loadTranslation = async (
-      namespace: string,
-      filePath: string,
-      targetData: Record<string, unknown>,
-      fallbackKeysSet: Set<string>,
-      isDefaultLanguage: boolean,
-      trackFallbacks: boolean,
-    ) => {
-      const data = await readJsonFile(filePath);
-      if (Object.keys(data).length > 0) {
-        const flattenedData = flattenObject(data);
-
-        // Add namespace prefix to all flattened keys
-        for (const [key, value] of Object.entries(flattenedData)) {
-          const fullKey = `${namespace}.${key}`;
-          const existedBefore = fullKey in targetData;
-
-          targetData[fullKey] = value;
-
-          // Track fallback keys inline during merge (only if fallback enabled)
-          if (trackFallbacks) {
-            if (isDefaultLanguage && !existedBefore) {
-              // This is a new key from default language - mark as fallback
-              fallbackKeysSet.add(fullKey);
-            } else if (!isDefaultLanguage && existedBefore) {
-              // Current language is overwriting a key - no longer fallback
-              fallbackKeysSet.delete(fullKey);
-            }
-          }
-        }
+    // Run the configured detection strategies (path, then Accept-Language by default)
+    let detected = detectLocale(ctx.req, url, languages, detection);
+    let lang = detected?.locale ?? defaultLanguage;
+
+    // Enforce the locale prefix policy
+    if (routing) {
+      const decision = resolveLocaleRoute(url, lang, languages, defaultLanguage, routing);
+
+      if (decision.type === "not-found") {
+        throw new HttpError(404);
       }
-    };
 
-    // Track which keys are using fallback (for indicator)
-    const fallbackKeys = new Set<string>();
-
-    // Discover all translation files in the current locale directory
-    const currentLocaleDir = join(localesDir, lang || defaultLanguage);
-    const translationFiles = await discoverTranslationFiles(currentLocaleDir);
-
-    // If fallback enabled and not default language, load default language first as base
-    if (fallbackConfig.enabled && lang !== defaultLanguage) {
-      const defaultLocaleDir = join(localesDir, defaultLanguage);
-      const defaultTranslationFiles = await discoverTranslationFiles(defaultLocaleDir);
-
-      for (const [namespace, filePath] of defaultTranslationFiles) {
-        await loadTranslation(
-          namespace,
-          filePath,
-          translationData,
-          fallbackKeys,
-          true,
-          true,
-        );
+      if (
+        decision.type === "redirect" &&
+        (ctx.req.method === "GET" || ctx.req.method === "HEAD")
+      ) {
+        const redirect = new Response(null, {
+          status: routing.redirectStatus ?? 302,
+          headers: { location: decision.location },
+        });
+        const persistCookie = detected && getPersistCookie(ctx.req, detected, detection);
+        return persistCookie ? withHeader(redirect, "set-cookie", persistCookie) : redirect;
+      }
+
+      // The URL decides the locale in prefix modes
+      if (decision.type === "render" && decision.locale && decision.locale !== lang) {
+        lang = decision.locale;
+        detected = {
+          locale: lang,
+          source: findSupportedLocale(pathSegments[0], languages) === lang ? "path" : "default",
+        };
       }
     }
 
-    // Load current language translations (overwrites defaults if any)
-    for (const [namespace, filePath] of translationFiles) {
-      await loadTranslation(
-        namespace,
-        filePath,
-        translationData,
-        fallbackKeys,
-        false,
-        fallbackConfig.enabled ?? false,
+    // Strip the locale prefix from the path, if present
+    const rootPath = findSupportedLocale(pathSegments[0], languages)
+      ? "/" + pathSegments.slice(1).join("/")
+      : url.pathname;
+
+    ctx.state.path = rootPath;
+    ctx.state.locale = lang;
+    ctx.state.localeSource = detected?.source ?? "default";
+
+    let translations: ResolvedTranslations | null;
+    try {
+      translations = await cache.get(lang || defaultLanguage);
+    } catch (error) {
+      if (!(error instanceof TranslationFileError) || (isProduction?.() ?? false)) throw error;
+
+      console.error(`❌ ${error.message}`);
+      return createErrorOverlayResponse(
+        error,
+        hotReloadChannel
+          ? getHotReloadScript(lang || defaultLanguage, defaultLanguage, getScriptNonce(ctx))
+          : "",
       );
     }
+    if (!translations) {
+      console.error("❌ Could not find locales directory at:", localesDir);
+      return await ctx.next() as Response; // Skip i18n if locales not found
+    }
+    const { data: translationData, fallbackKeys } = translations;
 
     // Store translation data and config in state
     ctx.state.translationData = translationData;
     ctx.state.locale = lang || defaultLanguage;
+    ctx.state.fmt = createFormatter(lang || defaultLanguage, formats);
 
     // Create pre-configured translate function and store in state
     ctx.state.t = translate(translationData, {
@@ -582,60 +734,102 @@ export const i18n = <State extends TranslationState = TranslationState>(
       shouldShowFallbackIndicator: fallbackConfig.shouldShowIndicator,
       applyFallbackOnDev: fallbackConfig.applyOnDev,
       isProduction: isProduction,
+      formats,
     });
 
-    const response = await ctx.next() as Response;
-
-    // If clientLoad is configured, inject translations into HTML
-    if (clientLoad && response) {
-      const contentType = response.headers.get("content-type");
-      
-      // Only inject into HTML responses
-      if (contentType?.includes("text/html")) {
-        const isDev = isProduction ? !isProduction() : true;
-        
-        // Determine which namespaces to load
-        // Use the locale-stripped path for matching
-        const namespacesToLoad = getClientLoadNamespaces(
-          ctx.state.path || url.pathname,
-          clientLoad,
-          isDev,
-        );
+    // Data for islands: injected into HTML pages, and read by island hooks rendered on the
+    // server so both render the same text. Built on first use.
+    let clientData: ClientTranslationData | null | undefined;
+    // Development only: explains keys islands miss because their namespace wasn't injected
+    let clientDiagnostics: ClientDiagnostics | undefined;
+    const getClientData = (): ClientTranslationData | null => {
+      if (clientData !== undefined) return clientData;
+      clientData = null;
+      if (!clientLoad) return clientData;
+
+      const isDev = isProduction ? !isProduction() : true;
+
+      // Determine which namespaces to load
+      // Use the locale-stripped path for matching
+      const path = ctx.state.path || url.pathname;
+      const { namespaces: namespacesToLoad, patterns } = getClientLoadNamespaces(
+        path,
+        clientLoad,
+        clientRoutes,
+        isDev,
+      );
 
-        // Skip injection if fallback is "none" and no routes matched
-        if (
-          namespacesToLoad.length === 1 &&
-          namespacesToLoad[0] === "__SKIP_INJECTION__"
-        ) {
-          return response; // Return response unchanged
+      // Skip injection if fallback is "none" and no routes matched
+      if (
+        namespacesToLoad.length !== 1 ||
+        namespacesToLoad[0] !== "__SKIP_INJECTION__"
+      ) {
+        clientData = createClientData(translationData, lang || defaultLanguage, namespacesToLoad);
+        if (isDev) {
+          clientDiagnostics = {
+            path,
+            patterns,
+            available: getAvailableNamespaces(translationData, clientData.translations),
+          };
         }
+      }
+      return clientData;
+    };
 
-        // Extract only the needed translations
-        const clientTranslations = extractNamespaces(
-          translationData,
-          namespacesToLoad,
-        );
+    // Islands rendered on the server get the injected data and nothing more, so they render
+    // what the browser hydrates: nothing is in scope when nothing is injected
+    let response = await runWithTranslationData(getClientData, () => ctx.next()) as Response;
 
-        // Read response body
-        const html = await response.text();
-        
-        // Inject script tag with translations
-        const modifiedHtml = injectClientTranslations(
-          html,
-          clientTranslations,
-          lang || defaultLanguage,
-          defaultLanguage,
-        );
+    // Remember locales chosen through the path or query parameter
+    const persistCookie = detected && getPersistCookie(ctx.req, detected, detection);
+    if (response && persistCookie) {
+      response = withHeader(response, "set-cookie", persistCookie);
+    }
 
-        // Return modified response
-        return new Response(modifiedHtml, {
-          status: response.status,
-          statusText: response.statusText,
-          headers: response.headers,
-        });
-      }
+    // Only inject into HTML responses
+    if (!response || !response.headers.get("content-type")?.includes("text/html")) {
+      return response;
     }
 
-    return response;
+    const scriptTags: string[] = [];
+    // Read after rendering, so middlewares running after this one can set the nonce too
+    const scriptNonce = getScriptNonce(ctx);
+
+    // If clientLoad is configured, inject translations into HTML
+    const injectedData = getClientData();
+    if (injectedData && clientBundles) {
+      const { hash } = await getClientBundle(injectedData, translationData);
+      const src = getBundleUrl(injectedData.locale, injectedData.namespaces ?? [], hash);
+      scriptTags.push(`<script src="${src}"${getNonceAttribute(scriptNonce)}></script>`);
+    } else if (injectedData) {
+      scriptTags.push(getClientTranslationsScript(injectedData, clientLoad?.inject, scriptNonce));
+    }
+    if (clientDiagnostics) {
+      scriptTags.push(
+        `<script type="application/json" id="${DIAGNOSTICS_ELEMENT_ID}">${
+          serializeClientData(clientDiagnostics)
+        }</script>`,
+      );
+    }
+
+    // Reload open pages when their locale files change
+    if (hotReloadChannel) {
+      scriptTags.push(getHotReloadScript(lang || defaultLanguage, defaultLanguage, scriptNonce));
+    }
+
+    if (scriptTags.length === 0) {
+      return response; // Return response unchanged
+    }
+
+    // Inject script tags as the body streams through
+    return injectIntoResponse(response, scriptTags.join(""));
   };
+
+  const close = () => {
+    watcher?.close();
+    watcher = undefined;
+    hotReloadChannel?.close();
+  };
+
+  return Object.assign(middleware, { cache, ready, close, [Symbol.dispose]: close });
 };
@@ -0,0 +1,23 @@
+import type { ClientTranslationData } from "./types.ts";
+
+/**
+ * Global key of the accessor returning the translation data of the request being rendered.
+ * The accessor is registered by `request-scope.ts` on the server; this module stays free of
+ * server imports so islands can read it.
+ */
+export const REQUEST_DATA_KEY: unique symbol = Symbol.for("@xiayun/fresh-i18n/request-data");
+
+/**
+ * Global object holding the request data accessor.
+ */
+export type RequestDataGlobal = {
+  [REQUEST_DATA_KEY]?: () => ClientTranslationData | undefined;
+};
+
+/**
+ * Reads the island translation data of the request being rendered on the server.
+ * @returns The request's data, or undefined in the browser and outside of a request
+ */
+export function getRequestTranslationData(): ClientTranslationData | undefined {
+  return (globalThis as RequestDataGlobal)[REQUEST_DATA_KEY]?.();
+}
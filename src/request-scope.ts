@@ -0,0 +1,29 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { REQUEST_DATA_KEY, type RequestDataGlobal } from "./request-data.ts";
+import type { ClientTranslationData } from "./types.ts";
+
+// Lazy getter per request, so the data is only built when something renders with it
+const storage = new AsyncLocalStorage<() => ClientTranslationData | null>();
+
+(globalThis as RequestDataGlobal)[REQUEST_DATA_KEY] = () => storage.getStore()?.() ?? undefined;
+
+/**
+ * Runs a function with the island translation data of a request in scope.
+ * Island hooks rendered on the server during `fn` read this data instead of `window.__I18N__`.
+ *
+ * @param getData - Returns the data injected for islands on this request, or null if none is
+ *   injected
+ * @param fn - Function to run, typically `ctx.next()`
+ * @returns The result of `fn`
+ *
+ * @example
+ * ```typescript
+ * const response = await runWithTranslationData(() => clientData, () => ctx.next());
+ * ```
+ */
+export function runWithTranslationData<T>(
+  getData: () => ClientTranslationData | null,
+  fn: () => T,
+): T {
+  return storage.run(getData, fn);
+}
@@ -0,0 +1,118 @@
+import type { TranslationParams } from "./interpolation.ts";
+
+/**
+ * A piece of parsed rich text: plain text or a tag with its content.
+ */
+export type RichTextNode = string | { tag: string; children: RichTextNode[] };
+
+/**
+ * Renders the content of a tag (e.g., `<link>terms</link>`) as a node of any UI library.
+ * Self-closing tags (`<br/>`) receive an empty array.
+ *
+ * @example
+ * ```tsx
+ * const components: RichTextComponents<VNode> = {
+ *   link: (chunks) => <a href="/terms">{chunks}</a>,
+ *   b: (chunks) => <strong>{chunks}</strong>,
+ * };
+ * ```
+ */
+export type RichTextComponents<Node = unknown> = Record<
+  string,
+  (chunks: (string | Node)[]) => Node
+>;
+
+// Stands in for "<" inside param values, so values can't open tags
+const ESCAPED_LT = "\uE000";
+
+// Matches <name>, </name> and <name/>
+const TAG_PATTERN = /<(\/?)([a-zA-Z][\w-]*)\s*(\/?)>/g;
+
+/**
+ * Replaces `<` in string params so interpolated values are never parsed as tags.
+ * @param params - Translation params
+ * @returns Params safe to interpolate before `parseRichText()`
+ */
+export function escapeRichTextParams(params?: TranslationParams): TranslationParams | undefined {
+  if (!params) return params;
+  return Object.fromEntries(
+    Object.entries(params).map(([name, value]) =>
+      // defaultValue is a translation, not a value
+      name !== "defaultValue" && typeof value === "string"
+        ? [name, value.replaceAll("<", ESCAPED_LT)]
+        : [name, value]
+    ),
+  );
+}
+
+/**
+ * Parses tag placeholders of a translated text into a tree.
+ * Only `<name>…</name>` and `<name/>` are recognized; attributes aren't supported, so values
+ * can't carry markup. Unmatched tags are kept as plain text.
+ *
+ * @param text - Interpolated translation (see `escapeRichTextParams()`)
+ * @returns Text and tag nodes
+ * @example
+ * parseRichText("Accept the <link>terms</link>")
+ * // ["Accept the ", { tag: "link", children: ["terms"] }]
+ */
+export function parseRichText(text: string): RichTextNode[] {
+  const root: RichTextNode[] = [];
+  // Open tags with their source text, to restore them if never closed
+  const stack: { tag: string; children: RichTextNode[]; source: string }[] = [];
+  let current = root;
+  let lastIndex = 0;
+
+  const pushText = (value: string) => {
+    if (value !== "") current.push(value.replaceAll(ESCAPED_LT, "<"));
+  };
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const [source, closing, tag, selfClosing] = match;
+    pushText(text.slice(lastIndex, match.index));
+    lastIndex = match.index! + source.length;
+
+    if (selfClosing && !closing) {
+      current.push({ tag, children: [] });
+    } else if (!closing) {
+      const node = { tag, children: [] as RichTextNode[], source };
+      stack.push(node);
+      current.push(node);
+      current = node.children;
+    } else if (stack.length > 0 && stack[stack.length - 1].tag === tag) {
+      stack.pop();
+      current = stack.length > 0 ? stack[stack.length - 1].children : root;
+    } else {
+      pushText(source);
+    }
+  }
+  pushText(text.slice(lastIndex));
+
+  // Tags that were never closed become text again
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    const parent = stack.length > 0 ? stack[stack.length - 1].children : root;
+    const index = parent.indexOf(node);
+    parent.splice(index, 1, node.source, ...node.children);
+  }
+
+  return normalize(root);
+}
+
+/**
+ * Joins adjacent text nodes and drops parser bookkeeping from tag nodes.
+ */
+function normalize(nodes: RichTextNode[]): RichTextNode[] {
+  const result: RichTextNode[] = [];
+  for (const node of nodes) {
+    const last = result[result.length - 1];
+    if (typeof node !== "string") {
+      result.push({ tag: node.tag, children: normalize(node.children) });
+    } else if (typeof last === "string") {
+      result[result.length - 1] = last + node;
+    } else {
+      result.push(node);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,142 @@
+/**
+ * A `clientLoad.routes` entry compiled to a `URLPattern`.
+ */
+export interface CompiledRoute {
+  /** Pattern as configured, including a leading "!" for exclusions */
+  pattern: string;
+  /** Whether the pattern removes its namespaces instead of adding them */
+  negated: boolean;
+  /** Namespaces of the entry */
+  namespaces: string[];
+  matcher: URLPattern;
+  /** Rank of each path segment: 2 static, 1 parameter, 0 wildcard */
+  specificity: number[];
+  /** Comes from a namespace manifest: always merged, even in "most-specific" mode */
+  generated: boolean;
+}
+
+/**
+ * Result of matching a path against compiled routes.
+ */
+export interface RouteMatch {
+  /** Namespaces to load, in route order and without duplicates */
+  namespaces: string[];
+  /** Patterns of every matching route, exclusions left out */
+  patterns: string[];
+}
+
+/**
+ * Normalizes a URL path by removing trailing slashes (except for root "/").
+ * @param path - The URL path to normalize
+ * @returns The normalized path
+ */
+export function normalizeUrlPath(path: string): string {
+  if (path === "/" || !path.endsWith("/")) return path;
+  return path.slice(0, -1);
+}
+
+/**
+ * Ranks the segments of a pattern, so that static segments beat parameters and parameters beat
+ * wildcards when picking the most specific route.
+ */
+function getSpecificity(pattern: string): number[] {
+  return pattern.split("/").filter(Boolean).map((segment) => {
+    if (/[*(]/.test(segment)) return 0;
+    if (/[:{?+]/.test(segment)) return 1;
+    return 2;
+  });
+}
+
+function compareSpecificity(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Compiles `clientLoad.routes` once, when the middleware is created.
+ * Keys use `URLPattern` pathname syntax: `:id` parameters, `*` wildcards anywhere in the path
+ * and `{…}?` optional groups. A key starting with "!" is an exclusion: on matching paths, its
+ * namespaces are removed from the ones other routes matched.
+ *
+ * @param routes - Pattern to namespaces mapping
+ * @param ignoreTrailingSlash - Strip trailing slashes from patterns, as from matched paths
+ * @param generated - The routes come from a namespace manifest
+ * @returns Compiled routes, in declaration order
+ * @throws TypeError if a pattern isn't valid `URLPattern` syntax
+ *
+ * @example
+ * ```typescript
+ * compileRoutes({
+ *   "/admin/*": ["features.admin"],
+ *   "!/admin/login": ["features.admin"], // Everything under /admin except the login page
+ *   "/projects/:id/settings": ["features.settings"],
+ * });
+ * ```
+ */
+export function compileRoutes(
+  routes: Record<string, string[]>,
+  ignoreTrailingSlash = false,
+  generated = false,
+): CompiledRoute[] {
+  return Object.entries(routes).map(([pattern, namespaces]) => {
+    const negated = pattern.startsWith("!");
+    let pathname = negated ? pattern.slice(1) : pattern;
+    if (ignoreTrailingSlash) pathname = normalizeUrlPath(pathname);
+
+    let matcher: URLPattern;
+    try {
+      matcher = new URLPattern({ pathname });
+    } catch (error) {
+      throw new TypeError(`Invalid clientLoad route pattern "${pattern}": ${error}`);
+    }
+
+    const specificity = getSpecificity(pathname);
+    return { pattern, negated, namespaces, matcher, specificity, generated };
+  });
+}
+
+/**
+ * Finds the namespaces of the routes matching a path.
+ * - "all" merges the namespaces of every matching route
+ * - "most-specific" keeps the route whose segments are the most specific, left to right
+ *   (static before `:param` before `*`); the first declared route wins a tie
+ *
+ * Generated routes are merged in both modes. Matching exclusions then remove their namespaces.
+ *
+ * @param pathname - Path to match (normalized like the patterns)
+ * @param routes - Routes from `compileRoutes()`
+ * @param mode - How to combine several matching routes
+ * @returns Matched namespaces and patterns
+ *
+ * @example
+ * ```typescript
+ * const routes = compileRoutes({ "/projects/*": ["projects"], "/projects/:id/settings": ["settings"] });
+ * matchRoutes("/projects/7/settings", routes, "all").namespaces; // ["projects", "settings"]
+ * matchRoutes("/projects/7/settings", routes, "most-specific").namespaces; // ["settings"]
+ * ```
+ */
+export function matchRoutes(
+  pathname: string,
+  routes: CompiledRoute[],
+  mode: "all" | "most-specific" = "all",
+): RouteMatch {
+  const matched = routes.filter((route) => route.matcher.test({ pathname }));
+  let included = matched.filter((route) => !route.negated);
+  const excluded = new Set(matched.filter((route) => route.negated).flatMap((r) => r.namespaces));
+
+  const configured = included.filter((route) => !route.generated);
+  if (mode === "most-specific" && configured.length > 1) {
+    const best = configured.reduce((best, route) =>
+      compareSpecificity(route.specificity, best.specificity) > 0 ? route : best
+    );
+    included = included.filter((route) => route.generated || route === best);
+  }
+
+  const namespaces = new Set(included.flatMap((route) => route.namespaces));
+  return {
+    namespaces: [...namespaces].filter((namespace) => !excluded.has(namespace)),
+    patterns: matched.filter((route) => !route.negated).map((route) => route.pattern),
+  };
+}
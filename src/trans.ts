@@ -0,0 +1,55 @@
+import { cloneElement, type ComponentChildren, Fragment, h, type VNode } from "preact";
+import type { RichTextComponents, TranslateMethods, TranslationParams } from "./translator.ts";
+
+/**
+ * Renders a tag of a rich translation: an element that receives the tag content as
+ * children (`<a href="/terms" />`), or a function of the content.
+ */
+export type TransComponent = VNode | ((chunks: ComponentChildren[]) => VNode);
+
+/**
+ * Props of the `<Trans>` component.
+ */
+export interface TransProps<Key extends string = string> {
+  /** Translation key, e.g., "legal.accept" for `"Accept the <link>terms</link>"` */
+  i18nKey: Key;
+  /** Components by tag name */
+  components?: Record<string, TransComponent>;
+  /** Values for placeholders */
+  values?: TranslationParams;
+  /** Translator: `state.t` on the server, `useTranslation()` in islands */
+  t: TranslateMethods<Key>;
+}
+
+/**
+ * Renders a translation whose value contains tags, mapping each tag to a component.
+ * Text is rendered as text nodes: neither the translation nor the values can inject HTML.
+ *
+ * @param props - Key, components, values and translator
+ * @returns The rendered translation
+ *
+ * @example
+ * ```tsx
+ * // "accept": "By continuing you accept the <link>terms</link> and <b>privacy policy</b>"
+ * <Trans
+ *   t={ctx.state.t}
+ *   i18nKey="legal.accept"
+ *   components={{ link: <a href="/terms" />, b: (chunks) => <strong>{chunks}</strong> }}
+ * />
+ *
+ * // In an island
+ * <Trans t={useTranslation()} i18nKey="legal.accept" components={{ link: <a href="/terms" /> }} />
+ * ```
+ */
+export function Trans<Key extends string = string>(
+  { i18nKey, components = {}, values, t }: TransProps<Key>,
+): VNode {
+  const renderers: RichTextComponents<VNode> = {};
+  for (const [tag, component] of Object.entries(components)) {
+    renderers[tag] = typeof component === "function"
+      ? component
+      : (chunks) => cloneElement(component, undefined, ...chunks);
+  }
+
+  return h(Fragment, null, ...t.rich(i18nKey, renderers, values));
+}
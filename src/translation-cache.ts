@@ -0,0 +1,220 @@
+import { type LoadedNamespace, loadLocale, type LoadOptions } from "./translation-loader.ts";
+
+/**
+ * Options for creating a translation cache.
+ */
+export interface TranslationCacheOptions extends LoadOptions {
+  /** Path to the directory containing locale folders */
+  localesDir: string;
+  /** Default language used as the base when fallback is enabled */
+  defaultLanguage: string;
+  /**
+   * Merge fallback locale translations under every other locale.
+   * @default false
+   */
+  fallback?: boolean;
+  /**
+   * Locales a locale falls back to, most preferred first, walked key by key.
+   * @default (locale) => [defaultLanguage]
+   */
+  fallbackChain?: (locale: string) => string[];
+}
+
+/**
+ * Translations resolved for a single locale, ready to be used by `translate()`.
+ * Objects are shared between requests and must be treated as read-only.
+ */
+export interface ResolvedTranslations {
+  /** Flat translation data object with dot-separated keys */
+  data: Record<string, unknown>;
+  /** Keys whose value comes from a fallback locale, mapped to that locale */
+  fallbackKeys: Map<string, string>;
+  /**
+   * File every key was loaded from (the fallback locale's file for fallback keys).
+   * Meant for debugging tools.
+   * @example
+   * (await cache.get("es"))!.origins.get("common.actions.save") // "locales/es/common/actions.json"
+   */
+  origins: Map<string, string>;
+}
+
+/**
+ * Per-locale cache of flattened translation data shared across requests.
+ */
+export interface TranslationCache {
+  /**
+   * Returns the resolved translations for a locale, loading them on first use.
+   * @param locale - Locale code (e.g., "en")
+   * @returns The resolved translations, or null if the locales directory does not exist
+   */
+  get(locale: string): Promise<ResolvedTranslations | null>;
+  /**
+   * Loads the given locales ahead of the first request.
+   * @param locales - Locale codes to load
+   */
+  preload(locales: string[]): Promise<void>;
+  /**
+   * Drops cached translations so they are read from disk on next use.
+   * Invalidating a locale also drops every locale that falls back to it. Pending `get()` calls
+   * load the locale again instead of returning translations read before the change.
+   * @param locale - Locale to invalidate. Omit to clear the whole cache.
+   * @param namespace - Only re-read this namespace of the locale; other files are reused.
+   */
+  invalidate(locale?: string, namespace?: string): void;
+}
+
+/**
+ * Creates a per-locale translation cache.
+ * Locale files are read once, in parallel, and the flattened result is reused
+ * by every request until the locale is invalidated.
+ *
+ * @param options - Cache options
+ * @returns The translation cache
+ *
+ * @example
+ * ```typescript
+ * const cache = createTranslationCache({
+ *   localesDir: "./locales",
+ *   defaultLanguage: "en",
+ *   fallback: true,
+ * });
+ *
+ * const { data, fallbackKeys } = (await cache.get("es"))!;
+ * cache.invalidate("es"); // Re-read locales/es on next use
+ * ```
+ */
+export function createTranslationCache(
+  {
+    localesDir,
+    defaultLanguage,
+    fallback = false,
+    fallbackChain = () => [defaultLanguage],
+    ...loadOptions
+  }: TranslationCacheOptions,
+): TranslationCache {
+  const catalogs = new Map<string, Promise<Map<string, LoadedNamespace>>>();
+  const resolved = new Map<string, Promise<ResolvedTranslations>>();
+  // Locales each resolved locale was built from, to know what to drop on invalidation
+  const resolvedFrom = new Map<string, string[]>();
+  let localesDirExists: Promise<boolean> | null = null;
+
+  // Don't keep failed loads around, unless the entry was already replaced by a newer load
+  const forgetOnFailure = <T>(map: Map<string, Promise<T>>, locale: string, entry: Promise<T>) => {
+    entry.catch(() => {
+      if (map.get(locale) === entry) map.delete(locale);
+    });
+  };
+
+  const checkLocalesDir = async (): Promise<boolean> => {
+    try {
+      return (await Deno.stat(localesDir)).isDirectory;
+    } catch {
+      return false;
+    }
+  };
+
+  const getCatalog = (locale: string) => {
+    let catalog = catalogs.get(locale);
+    if (!catalog) {
+      catalog = loadLocale(localesDir, locale, loadOptions);
+      catalogs.set(locale, catalog);
+      forgetOnFailure(catalogs, locale, catalog);
+    }
+    return catalog;
+  };
+
+  const resolve = async (
+    locale: string,
+    chain: string[],
+  ): Promise<ResolvedTranslations> => {
+    const data: Record<string, unknown> = {};
+    const fallbackKeys = new Map<string, string>();
+    const origins = new Map<string, string>();
+    const catalogsInChain = await Promise.all(chain.map(getCatalog));
+
+    // Load the least preferred fallback first so more preferred locales overwrite it
+    for (let i = chain.length - 1; i >= 0; i--) {
+      for (const { filePath, data: namespaceData } of catalogsInChain[i].values()) {
+        for (const key in namespaceData) {
+          data[key] = namespaceData[key];
+          fallbackKeys.set(key, chain[i]);
+          origins.set(key, filePath);
+        }
+      }
+    }
+
+    // Current language translations overwrite fallbacks if any
+    for (const { filePath, data: namespaceData } of (await getCatalog(locale)).values()) {
+      for (const key in namespaceData) {
+        data[key] = namespaceData[key];
+        fallbackKeys.delete(key);
+        origins.set(key, filePath);
+      }
+    }
+
+    return { data, fallbackKeys, origins };
+  };
+
+  const get = async (locale: string): Promise<ResolvedTranslations | null> => {
+    if (!localesDirExists) {
+      localesDirExists = checkLocalesDir();
+    }
+    if (!await localesDirExists) {
+      localesDirExists = null; // Retry on next call, the directory may appear later
+      return null;
+    }
+
+    let entry = resolved.get(locale);
+    if (!entry) {
+      const chain = fallback ? fallbackChain(locale).filter((tag) => tag !== locale) : [];
+      entry = resolve(locale, chain);
+      resolved.set(locale, entry);
+      resolvedFrom.set(locale, chain);
+      forgetOnFailure(resolved, locale, entry);
+    }
+    const result = await entry;
+    // Invalidated while loading: the result may predate the change, so load again
+    if (resolved.get(locale) !== entry) return get(locale);
+    return result;
+  };
+
+  return {
+    get,
+    async preload(locales: string[]) {
+      await Promise.all(locales.map(get));
+    },
+    invalidate(locale?: string, namespace?: string) {
+      if (locale === undefined) {
+        catalogs.clear();
+        resolved.clear();
+        resolvedFrom.clear();
+        localesDirExists = null;
+        return;
+      }
+
+      const previous = catalogs.get(locale);
+      if (previous && namespace !== undefined) {
+        // Rediscover the locale files but only read the changed namespace again
+        const refreshed = previous.then(
+          (catalog) => {
+            const reuse = new Map(catalog);
+            reuse.delete(namespace);
+            return loadLocale(localesDir, locale, loadOptions, reuse);
+          },
+          () => loadLocale(localesDir, locale, loadOptions),
+        );
+        catalogs.set(locale, refreshed);
+        forgetOnFailure(catalogs, locale, refreshed);
+      } else {
+        catalogs.delete(locale);
+      }
+      // Drop the locale and every locale that falls back to it
+      for (const [resolvedLocale, chain] of resolvedFrom) {
+        if (resolvedLocale === locale || chain.includes(locale)) {
+          resolved.delete(resolvedLocale);
+          resolvedFrom.delete(resolvedLocale);
+        }
+      }
+    },
+  };
+}
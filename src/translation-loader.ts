@@ -0,0 +1,400 @@
+import { join, relative } from "@std/path";
+import {
+  DEFAULT_LOADERS,
+  getLoaderExtension,
+  resolveLoaders,
+  type TranslationLoaders,
+} from "./file-loaders.ts";
+import {
+  findDuplicateJsonKeys,
+  formatFileIssue,
+  getErrorLocation,
+  getLineColumn,
+  TranslationFileError,
+  type TranslationFileIssue,
+} from "./file-diagnostics.ts";
+import { isIcuMessage, parseMessage } from "./message-format.ts";
+
+/**
+ * Options for loading translation files.
+ */
+export interface LoadOptions {
+  /**
+   * Report messages with invalid ICU syntax, naming the file and key.
+   * @default false
+   */
+  validateMessages?: boolean;
+  /**
+   * Loaders keyed by file extension, merged with the built-in JSON, JSON5, YAML, TOML and PO loaders.
+   */
+  loaders?: TranslationLoaders;
+  /**
+   * Throw a `TranslationFileError` for unreadable files, parse errors, duplicate keys,
+   * non-object roots and namespace/key collisions instead of loading malformed files
+   * as empty and warning about collisions.
+   * @default false
+   */
+  strict?: boolean;
+}
+
+/**
+ * A loaded translation file.
+ */
+export interface LoadedNamespace {
+  /** Path of the file the namespace was loaded from */
+  filePath: string;
+  /** Flat namespace-prefixed translations */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Called when two translation files map to the same namespace
+ * (e.g., `user-settings.json` and `user_settings.json`).
+ */
+export type NamespaceCollisionHandler = (
+  namespace: string,
+  filePath: string,
+  otherFilePath: string,
+) => void;
+
+/**
+ * Reads a translation file with the loader registered for its extension.
+ *
+ * @param filePath - Path to the translation file
+ * @param loaders - Available loaders
+ * @param strict - Also reject duplicate keys (JSON) and roots that are not objects
+ * @returns The parsed file content (empty files return an empty object)
+ * @throws TranslationFileError if the file can't be read or parsed, with the line and column when known
+ */
+export async function parseTranslationFile(
+  filePath: string,
+  loaders: TranslationLoaders = DEFAULT_LOADERS,
+  strict = false,
+): Promise<Record<string, unknown>> {
+  const extension = getLoaderExtension(filePath, loaders);
+  if (!extension) {
+    throw new TranslationFileError([{
+      filePath,
+      message: "No loader registered for this file type",
+    }]);
+  }
+
+  let content: string;
+  try {
+    content = await Deno.readTextFile(filePath);
+  } catch (error) {
+    throw new TranslationFileError([
+      { filePath, message: `Could not read file: ${(error as Error).message}` },
+    ]);
+  }
+
+  // Skip empty files
+  if (content.trim() === "") {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = await loaders[extension](content, filePath);
+  } catch (error) {
+    throw new TranslationFileError([{
+      filePath,
+      message: error instanceof Error ? error.message : String(error),
+      ...getErrorLocation(error, content),
+    }]);
+  }
+
+  if (!strict) return (data ?? {}) as Record<string, unknown>;
+
+  if (data !== null && data !== undefined && (typeof data !== "object" || Array.isArray(data))) {
+    const kind = Array.isArray(data) ? "an array" : `a ${typeof data}`;
+    throw new TranslationFileError([
+      { filePath, message: `Root value must be an object, found ${kind}`, line: 1, column: 1 },
+    ]);
+  }
+
+  if (extension === ".json") {
+    const duplicates = findDuplicateJsonKeys(content);
+    if (duplicates.length > 0) {
+      throw new TranslationFileError(
+        duplicates.map(({ key, offset }) => ({
+          filePath,
+          message: `Duplicate key "${key}", only the last value is used`,
+          ...getLineColumn(content, offset),
+        })),
+      );
+    }
+  }
+
+  return (data ?? {}) as Record<string, unknown>;
+}
+
+async function readTranslationFile(
+  filePath: string,
+  loaders: TranslationLoaders,
+  strict = false,
+): Promise<Record<string, unknown>> {
+  if (strict) return await parseTranslationFile(filePath, loaders, true);
+
+  try {
+    return await parseTranslationFile(filePath, loaders);
+  } catch {
+    return {}; // Lenient mode: malformed or missing files load as empty
+  }
+}
+
+/**
+ * Converts kebab-case or snake_case strings to camelCase.
+ * @param str - The string to convert
+ * @returns The camelCased string
+ * @example
+ * kebabToCamel("pdi-modals") // "pdiModals"
+ * kebabToCamel("user_settings") // "userSettings"
+ */
+export function kebabToCamel(str: string): string {
+  return str.replace(/[-_]([a-z])/g, (_, letter) => letter.toUpperCase());
+}
+
+/**
+ * Builds a namespace from a translation file path relative to its locale directory.
+ * @param relativePath - File path relative to the locale directory
+ * @returns The dot-separated namespace
+ * @example
+ * namespaceFromPath("features/user-settings.json") // "features.userSettings"
+ */
+export function namespaceFromPath(relativePath: string): string {
+  // Remove the file extension and convert path separators to dots
+  return relativePath
+    .replace(/\.[^.\\/]+$/, "")
+    .split(/[\\/]/)
+    .map(kebabToCamel)
+    .join(".");
+}
+
+/**
+ * Recursively discovers all translation files in a locale directory.
+ * Builds namespace keys from folder/file paths, so `common.yaml` and `common.json`
+ * both map to the "common" namespace.
+ *
+ * @param localeDir - The locale directory to scan (e.g., "locales/en")
+ * @param basePath - The base path for relative path calculation (used internally for recursion)
+ * @param loaders - Loaders whose extensions are picked up (JSON, JSON5, YAML, TOML and PO by default)
+ * @param onCollision - Called when a file maps to a namespace already taken by another file.
+ *   Entries are visited in name order, so the file sorted last wins.
+ * @returns Map of namespace -> file path
+ * @example
+ * // Directory structure:
+ * // locales/en/common.json
+ * // locales/en/common/actions.json
+ * // locales/en/features/navigator/dashboard.json
+ *
+ * // Returns:
+ * // {
+ * //   "common": "locales/en/common.json",
+ * //   "common.actions": "locales/en/common/actions.json",
+ * //   "features.navigator.dashboard": "locales/en/features/navigator/dashboard.json"
+ * // }
+ */
+export async function discoverTranslationFiles(
+  localeDir: string,
+  basePath: string = localeDir,
+  loaders: TranslationLoaders = DEFAULT_LOADERS,
+  onCollision?: NamespaceCollisionHandler,
+): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+  const add = (namespace: string, path: string) => {
+    const existing = files.get(namespace);
+    if (existing) onCollision?.(namespace, path, existing);
+    files.set(namespace, path);
+  };
+
+  try {
+    // Sorted so the winner of a collision doesn't depend on the file system
+    const entries = [];
+    for await (const entry of Deno.readDir(localeDir)) entries.push(entry);
+    entries.sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+
+    for (const entry of entries) {
+      const fullPath = join(localeDir, entry.name);
+
+      if (entry.isFile && getLoaderExtension(entry.name, loaders)) {
+        // Build namespace from relative path
+        add(namespaceFromPath(relative(basePath, fullPath)), fullPath);
+      } else if (entry.isDirectory) {
+        // Recursively scan subdirectories
+        const subFiles = await discoverTranslationFiles(fullPath, basePath, loaders, onCollision);
+        for (const [namespace, path] of subFiles) {
+          add(namespace, path);
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`Error discovering translation files in ${localeDir}:`, error);
+  }
+
+  return files;
+}
+
+/**
+ * Flattens a nested translation object into dot-separated keys.
+ * Strings, numbers, booleans and arrays are kept as leaves; `null` values are dropped.
+ *
+ * @param obj - The nested object to flatten
+ * @param prefix - Prefix prepended to every key (used internally for recursion)
+ * @returns Flat object with dot-separated keys
+ * @example
+ * flattenObject({ actions: { save: "Save" }, steps: ["One", "Two"] }, "common.")
+ * // { "common.actions.save": "Save", "common.steps": ["One", "Two"] }
+ */
+export function flattenObject(
+  obj: Record<string, unknown>,
+  prefix = "",
+): Record<string, unknown> {
+  const flattened: Record<string, unknown> = {};
+
+  for (const key in obj) {
+    if (
+      obj[key] !== null && typeof obj[key] === "object" &&
+      !Array.isArray(obj[key])
+    ) {
+      Object.assign(
+        flattened,
+        flattenObject(
+          obj[key] as Record<string, unknown>,
+          `${prefix}${key}.`,
+        ),
+      );
+    } else if (obj[key] !== null && obj[key] !== undefined) {
+      flattened[`${prefix}${key}`] = obj[key];
+    }
+  }
+
+  return flattened;
+}
+
+/**
+ * Logs every ICU message of a flattened namespace that fails to parse.
+ * @param filePath - Path of the file the messages were loaded from
+ * @param data - Flat namespace-prefixed translations
+ */
+function reportInvalidMessages(filePath: string, data: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(data)) {
+    if (typeof value !== "string" || !isIcuMessage(value)) continue;
+
+    try {
+      parseMessage(value);
+    } catch (error) {
+      console.error(
+        `❌ Invalid ICU message in ${filePath} at "${key}": ${(error as Error).message}`,
+      );
+    }
+  }
+}
+
+/**
+ * Reads a single translation file and flattens it under its namespace.
+ *
+ * @param namespace - Namespace derived from the file path (e.g., "common.actions")
+ * @param filePath - Path to the translation file
+ * @param options - Load options
+ * @returns Flat object with namespace-prefixed keys (e.g., "common.actions.save")
+ */
+export async function loadNamespace(
+  namespace: string,
+  filePath: string,
+  options: LoadOptions = {},
+): Promise<Record<string, unknown>> {
+  const data = flattenObject(
+    await readTranslationFile(filePath, resolveLoaders(options.loaders), options.strict),
+    `${namespace}.`,
+  );
+
+  if (options.validateMessages) {
+    reportInvalidMessages(filePath, data);
+  }
+
+  return data;
+}
+
+/**
+ * Loads every translation file of a locale in parallel.
+ * Namespaces are returned in name order, so when `common.json` defines `actions.save`
+ * and `common/actions.json` defines `save`, the dedicated file wins.
+ *
+ * Collisions are reported naming both files: as a warning, or as a `TranslationFileError`
+ * in strict mode.
+ * - Two files with the same namespace (`user-settings.json` and `user_settings.json`)
+ * - The same flattened key in two files (`common.json` and `common/actions.json`)
+ *
+ * @param localesDir - Path to the directory containing locale folders
+ * @param locale - Locale folder to load (e.g., "en")
+ * @param options - Load options
+ * @param reuse - Already loaded namespaces that don't need to be read again
+ * @returns Map of namespace -> loaded file
+ * @throws TranslationFileError in strict mode, listing the problems of every malformed file
+ */
+export async function loadLocale(
+  localesDir: string,
+  locale: string,
+  options: LoadOptions = {},
+  reuse?: Map<string, LoadedNamespace>,
+): Promise<Map<string, LoadedNamespace>> {
+  const localeDir = join(localesDir, locale);
+  const collisions: TranslationFileIssue[] = [];
+  const files = await discoverTranslationFiles(
+    localeDir,
+    localeDir,
+    resolveLoaders(options.loaders),
+    (namespace, filePath, otherFilePath) => {
+      collisions.push({
+        filePath,
+        message: `Namespace "${namespace}" is also defined by ${otherFilePath}`,
+      });
+    },
+  );
+
+  const results = await Promise.allSettled(
+    [...files].sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0).map(async ([namespace, filePath]) => {
+      const reused = reuse?.get(namespace);
+      const loaded: LoadedNamespace = reused?.filePath === filePath
+        ? reused
+        : { filePath, data: await loadNamespace(namespace, filePath, options) };
+      return [namespace, loaded] as const;
+    }),
+  );
+
+  // Report every malformed file at once rather than one per reload
+  const failures = results.filter((result) => result.status === "rejected");
+  if (failures.length > 0) {
+    const issues = failures.flatMap(({ reason }) =>
+      reason instanceof TranslationFileError ? reason.issues : [{
+        filePath: localeDir,
+        message: String(reason),
+      }]
+    );
+    throw new TranslationFileError(issues);
+  }
+
+  const catalog = new Map(
+    results.flatMap((result) => result.status === "fulfilled" ? [result.value] : []),
+  );
+
+  // Same flattened key in two files
+  const origins = new Map<string, string>();
+  for (const { filePath, data } of catalog.values()) {
+    for (const key in data) {
+      const otherFilePath = origins.get(key);
+      if (otherFilePath) {
+        collisions.push({ filePath, message: `Key "${key}" is also defined in ${otherFilePath}` });
+      }
+      origins.set(key, filePath);
+    }
+  }
+
+  if (collisions.length > 0) {
+    if (options.strict) throw new TranslationFileError(collisions);
+    for (const collision of collisions) console.warn(`⚠️  ${formatFileIssue(collision)}`);
+  }
+
+  return catalog;
+}
@@ -1,3 +1,124 @@
+import { type InterpolationResult, interpolate, type TranslationParams } from "./interpolation.ts";
+import type { FormatPresets } from "./formatters.ts";
+import { getCompiledMessage, isIcuMessage } from "./message-format.ts";
+import {
+  escapeRichTextParams,
+  parseRichText,
+  type RichTextComponents,
+  type RichTextNode,
+} from "./rich-text.ts";
+
+export type { RichTextComponents, TranslationParams };
+
+/**
+ * Translation function returned by `translate()` and exposed as `state.t`.
+ * Pass a key union (e.g., the generated `TranslationKey`) to type-check keys, and a params map
+ * (e.g., the generated `TranslationKeyParams`) to type-check the params of each key.
+ *
+ * @example
+ * ```typescript
+ * t("common.greeting", { name: "Ana" }); // "Hello Ana"
+ * t.list("onboarding.steps"); // ["Sign up", "Verify your email"]
+ * t.raw("common.actions"); // { save: "Save", cancel: "Cancel" }
+ * t.rich("legal.accept", { link: (chunks) => <a href="/terms">{chunks}</a> });
+ * ```
+ */
+export type TranslateFunction<
+  Key extends string = string,
+  Params extends object = Record<never, never>,
+> = TranslateCall<Key, Params> & TranslateMethods<Key>;
+
+/**
+ * Translates a key. Numbers and booleans are returned as text.
+ * Without a params map, any key takes optional `TranslationParams`; with one, params are
+ * required for keys that have placeholders.
+ * @param key - Dot-separated translation key
+ * @param params - Values for `{name}` / `{{name}}` placeholders and an optional `defaultValue`
+ * @returns The translated text
+ */
+export type TranslateCall<Key extends string, Params extends object> =
+  [keyof Params] extends [never] ? (key: Key, params?: TranslationParams) => string
+    : <K extends Key>(key: K, ...params: KeyParamsArgs<Params, K>) => string;
+
+/**
+ * Methods of a `TranslateFunction` for values that aren't plain text.
+ */
+export interface TranslateMethods<Key extends string = string> {
+  /**
+   * Returns an array value. String items (including strings inside object items)
+   * are interpolated and marked like any other fallback translation.
+   * @param key - Dot-separated translation key
+   * @param params - Values for placeholders
+   * @returns The array, or an empty array if the key is missing or not an array
+   */
+  list<Item = string>(key: Key, params?: TranslationParams): Item[];
+  /**
+   * Returns a value without converting it to text: a string, number, boolean, array,
+   * or the object of every key under a prefix (e.g., `"common.actions"`).
+   * String leaves are interpolated and marked like any other fallback translation.
+   * @param key - Dot-separated translation key or key prefix
+   * @param params - Values for placeholders
+   * @returns The value, or undefined if nothing is found
+   */
+  raw<Value = unknown>(key: Key | KeyPrefix<Key>, params?: TranslationParams): Value;
+  /**
+   * Translates a key whose value contains tags (`"Accept the <link>terms</link>"`) and
+   * renders each tag with a component. Param values are never parsed as tags, and tags
+   * without a component render their content only, so no raw HTML reaches the page.
+   * @param key - Dot-separated translation key
+   * @param components - Renderers by tag name
+   * @param params - Values for placeholders
+   * @returns Text and rendered nodes, ready to be used as JSX children
+   */
+  rich<Node = unknown>(
+    key: Key,
+    components: RichTextComponents<Node>,
+    params?: TranslationParams,
+  ): (string | Node)[];
+}
+
+/**
+ * Params argument of a key, looked up in a params map like the generated `TranslationKeyParams`.
+ * Keys without placeholders, or missing from the map, take optional `TranslationParams`.
+ * @example
+ * type Args = KeyParamsArgs<{ "common.greeting": { name: string } }, "common.greeting">;
+ * // [params: { name: string } & { defaultValue?: string }]
+ */
+export type KeyParamsArgs<Params extends object, K extends string> = K extends keyof Params
+  ? [keyof Params[K]] extends [never]
+    ? [params?: TranslationParams]
+    : [params: Params[K] & { defaultValue?: string }]
+  : [params?: TranslationParams];
+
+/**
+ * Params map of the keys under a namespace, keyed relative to it.
+ * @example
+ * type Params = NamespaceParams<{ "common.actions.save": { name: string } }, "common.actions">;
+ * // { save: { name: string } }
+ */
+export type NamespaceParams<Params extends object, Namespace extends string> = {
+  [K in keyof Params as K extends `${Namespace}.${infer Rest}` ? Rest : never]: Params[K];
+};
+
+/**
+ * Every dot-separated prefix of a key union.
+ * @example
+ * type Prefixes = KeyPrefix<"common.actions.save">; // "common" | "common.actions"
+ */
+export type KeyPrefix<Key extends string> = Key extends `${infer Head}.${infer Rest}`
+  ? Head | `${Head}.${KeyPrefix<Rest>}`
+  : never;
+
+/**
+ * Keys available under a namespace, relative to it.
+ * Resolves to `string` when keys are not typed.
+ * @example
+ * type ActionKeys = NamespaceKeys<"common.actions.save" | "common.title", "common.actions">; // "save"
+ */
+export type NamespaceKeys<Key extends string, Namespace extends string> = string extends Key
+  ? string
+  : (Key extends `${Namespace}.${infer Rest}` ? Rest : never) | (Namespace extends Key ? "" : never);
+
 /**
  * Configuration options for the translate function.
  * All properties are optional.
@@ -7,8 +128,11 @@ export interface TranslationConfig {
   locale?: string;
   /** Default locale for fallback translations */
   defaultLocale?: string;
-  /** Set of translation keys that are using fallback values */
-  fallbackKeys?: Set<string>;
+  /**
+   * Set of translation keys that are using fallback values.
+   * A Map records the locale each fallback value came from (e.g., "pt" for a "pt-BR" page).
+   */
+  fallbackKeys?: Set<string> | Map<string, string>;
   /** Whether to show translation keys in production mode */
   showKeysInProd?: boolean;
   /** Whether to show indicators on fallback translations */
@@ -21,18 +145,33 @@ export interface TranslationConfig {
   applyFallbackOnDev?: boolean;
   /** Custom function to check if running in production */
   isProduction?: () => boolean;
+  /** Named presets for `{name, number|date|time, preset}` arguments */
+  formats?: FormatPresets;
+  /** Reports missing keys in development, instead of the default console warning */
+  onMissingKey?: (key: string) => void;
 }
 
 /**
  * Creates a translator function for flat key structure.
  * @param translationData - The flat translation object with dot-separated keys.
  * @param config - Translation configuration (all optional).
- * @returns A function that takes a translation key and returns the translated string.
+ * @returns A function that takes a translation key (and optional placeholder values)
+ * and returns the translated string, with `list()` and `raw()` for arrays and subtrees.
+ *
+ * @example
+ * ```typescript
+ * const t = translate({ "common.greeting": "Hello {name}" });
+ * t("common.greeting", { name: "Ana" }); // "Hello Ana"
+ * t("common.farewell", { defaultValue: "Bye {name}", name: "Ana" }); // "Bye Ana"
+ *
+ * const tSteps = translate({ "onboarding.steps": ["Welcome {name}", "Verify your email"] });
+ * tSteps.list("onboarding.steps", { name: "Ana" }); // ["Welcome Ana", "Verify your email"]
+ * ```
  */
 export function translate(
   translationData: Record<string, unknown>,
   config?: TranslationConfig,
-): (key: string) => string {
+): TranslateFunction {
   const {
     locale,
     defaultLocale,
@@ -43,6 +182,8 @@ export function translate(
     shouldShowFallbackIndicator,
     applyFallbackOnDev = false,
     isProduction,
+    formats,
+    onMissingKey,
   } = config ?? {};
 
   const localeInfo = locale ? ` [locale: ${locale}]` : "";
@@ -54,33 +195,122 @@ export function translate(
   // Determine if we should use production behavior
   const useProductionBehavior = isProd || applyFallbackOnDev;
 
-  return (key: string): string => {
+  // Locale a fallback value came from, or undefined if the key is not a fallback
+  const getFallbackLocale = (key: string): string | undefined => {
+    if (!fallbackKeys?.has(key)) return undefined;
+    return fallbackKeys instanceof Map ? fallbackKeys.get(key) : defaultLocale;
+  };
+
+  // Formats ICU messages (plural rules and formats follow the locale the value came from)
+  const formatIcu = (
+    key: string,
+    text: string,
+    params?: TranslationParams,
+  ): InterpolationResult => {
+    const messageLocale = getFallbackLocale(key) ?? locale;
+    try {
+      return getCompiledMessage(key, text, messageLocale, formats)(params);
+    } catch (error) {
+      if (!useProductionBehavior) {
+        console.warn(
+          `❌ Invalid ICU message for key "${key}"${localeInfo}: ${(error as Error).message}`,
+        );
+      }
+      return { text, missing: [], used: new Set(Object.keys(params ?? {})) };
+    }
+  };
+
+  // Fills placeholders and reports unfilled placeholders or unused params in development.
+  // Unused params aren't reported for strings inside arrays and subtrees, where each
+  // string only uses some of the params.
+  const format = (
+    key: string,
+    text: string,
+    params?: TranslationParams,
+    reportUnused = true,
+  ): string => {
+    const { text: result, missing, used } = isIcuMessage(text)
+      ? formatIcu(key, text, params)
+      : interpolate(text, params);
+
+    if (!useProductionBehavior) {
+      for (const name of missing) {
+        console.warn(`⚠️  Missing value for placeholder "{${name}}" in "${key}"${localeInfo}`);
+      }
+      for (const name of reportUnused ? Object.keys(params ?? {}) : []) {
+        if (name !== "defaultValue" && !used.has(name)) {
+          console.warn(`⚠️  Unused param "${name}" passed to "${key}"${localeInfo}`);
+        }
+      }
+    }
+
+    return result;
+  };
+
+  // Formats a catalog string and adds the fallback indicator when the key is a fallback
+  const formatString = (
+    key: string,
+    value: string,
+    params?: TranslationParams,
+    reportUnused = true,
+  ): string => {
+    const text = format(key, value, params, reportUnused);
+    const fallbackLocale = getFallbackLocale(key);
+    // If showing fallback indicator and this key is a fallback
+    if (
+      useProductionBehavior &&
+      showFallbackIndicator &&
+      fallbackLocale &&
+      fallbackIndicatorFormat
+    ) {
+      // If shouldShowFallbackIndicator function is provided, check if we should show
+      // Otherwise, always show the indicator
+      if (!shouldShowFallbackIndicator || shouldShowFallbackIndicator(text, fallbackLocale)) {
+        return fallbackIndicatorFormat(text, fallbackLocale);
+      }
+    }
+    return text;
+  };
+
+  // Formats every string inside an array or object value, keeping other values as they are
+  const formatValue = (key: string, value: unknown, params?: TranslationParams): unknown => {
+    if (typeof value === "string") return formatString(key, value, params, false);
+    if (Array.isArray(value)) return value.map((item) => formatValue(key, item, params));
+    if (value !== null && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([name, item]) => [name, formatValue(key, item, params)]),
+      );
+    }
+    return value;
+  };
+
+  const warnMissing = (key: string) => {
+    if (useProductionBehavior) return;
+    if (onMissingKey) {
+      onMissingKey(key);
+    } else {
+      console.warn(`❌ Missing translation key: "${key}"${localeInfo}`);
+    }
+  };
+
+  const t = (key: string, params?: TranslationParams): string => {
     // First, try to find the key directly (for flat key structure)
     if (key in translationData) {
       const value = translationData[key];
       if (typeof value === "string") {
-        // If showing fallback indicator and this key is a fallback
-        if (
-          useProductionBehavior &&
-          showFallbackIndicator &&
-          fallbackKeys?.has(key) &&
-          defaultLocale &&
-          fallbackIndicatorFormat
-        ) {
-          // If shouldShowFallbackIndicator function is provided, check if we should show
-          // Otherwise, always show the indicator
-          if (!shouldShowFallbackIndicator || shouldShowFallbackIndicator(value, defaultLocale)) {
-            return fallbackIndicatorFormat(value, defaultLocale);
-          }
-        }
-        return value;
-      } else {
+        return formatString(key, value, params);
+      } else if (typeof value === "number" || typeof value === "boolean") {
+        return String(value);
+      } else if (params?.defaultValue === undefined) {
         // Show warnings in development (both server and client side)
         if (!useProductionBehavior) {
           console.warn(
             `❌ Translation key "${key}" exists but is not a string value${localeInfo}`,
           );
           console.warn(`   Expected: string, Got:`, typeof value, value);
+          if (Array.isArray(value)) {
+            console.warn(`   💡 Use t.list("${key}") to read arrays`);
+          }
           console.warn(
             `   📁 Root keys in translation data:`,
             Object.keys(translationData),
@@ -93,8 +323,11 @@ export function translate(
     }
 
     // Key not found - show warnings in development
-    if (!useProductionBehavior) {
-      console.warn(`❌ Missing translation key: "${key}"${localeInfo}`);
+    warnMissing(key);
+
+    // Use the provided default text until the key is added to the catalog
+    if (params?.defaultValue !== undefined) {
+      return format(key, params.defaultValue, params);
     }
 
     // Production behavior: show key if showKeysInProd is enabled, otherwise empty string
@@ -105,6 +338,76 @@ export function translate(
     // Development: show key in UI, Production: return empty string
     return useProductionBehavior ? "" : `[${key}]`;
   };
+
+  const list = <Item = string>(key: string, params?: TranslationParams): Item[] => {
+    const value = translationData[key];
+    if (Array.isArray(value)) return formatValue(key, value, params) as Item[];
+
+    if (value === undefined) {
+      warnMissing(key);
+    } else if (!useProductionBehavior) {
+      console.warn(`❌ Translation key "${key}" is not an array${localeInfo}`);
+    }
+    return [];
+  };
+
+  const raw = <Value = unknown>(key: string, params?: TranslationParams): Value => {
+    if (key in translationData) {
+      return formatValue(key, translationData[key], params) as Value;
+    }
+
+    // Rebuild the subtree from the flattened keys under the prefix
+    const prefix = `${key}.`;
+    let subtree: Record<string, unknown> | undefined;
+    // Objects built here; a key that is also the prefix of deeper keys ("actions" next to
+    // "actions.save") gives way to them
+    const branches = new WeakSet<object>();
+    for (const [fullKey, value] of Object.entries(translationData)) {
+      if (!fullKey.startsWith(prefix)) continue;
+
+      subtree ??= {};
+      const path = fullKey.slice(prefix.length).split(".");
+      let node = subtree;
+      for (const segment of path.slice(0, -1)) {
+        if (!branches.has(node[segment] as object)) {
+          node[segment] = {};
+          branches.add(node[segment] as object);
+        }
+        node = node[segment] as Record<string, unknown>;
+      }
+      // Each leaf uses its own key, so fallback indicators stay per key
+      const leaf = path[path.length - 1];
+      if (!branches.has(node[leaf] as object)) {
+        node[leaf] = formatValue(fullKey, value, params);
+      }
+    }
+
+    if (!subtree) warnMissing(key);
+    return subtree as Value;
+  };
+
+  const rich = <Node = unknown>(
+    key: string,
+    components: RichTextComponents<Node>,
+    params?: TranslationParams,
+  ): (string | Node)[] => {
+    const render = (nodes: RichTextNode[]): (string | Node)[] =>
+      nodes.flatMap((node) => {
+        if (typeof node === "string") return [node];
+        const component = components[node.tag];
+        if (!component) {
+          if (!useProductionBehavior) {
+            console.warn(`⚠️  No component for <${node.tag}> in "${key}"${localeInfo}`);
+          }
+          return render(node.children);
+        }
+        return [component(render(node.children))];
+      });
+
+    return render(parseRichText(t(key, escapeRichTextParams(params))));
+  };
+
+  return Object.assign(t, { list, raw, rich }) as TranslateFunction;
 }
 
 /**
@@ -125,6 +428,8 @@ export function translate(
  * // Use without repeating the namespace
  * <button>{tActions("save")}</button>     // → t("common.actions.save")
  * <p>{tStates("loading")}</p>             // → t("common.states.loading")
+ * <p>{tStates("saved", { name })}</p>     // → t("common.states.saved", { name })
+ * tStates.list("history")                 // → t.list("common.states.history")
  * 
  * // You can also nest namespaces
  * const tIndicators = createNamespacedTranslator(t, "indicatorsPage");
@@ -132,16 +437,46 @@ export function translate(
  * tIndicatorForm("save") // → t("indicatorsPage.form.save")
  * ```
  */
+export function createNamespacedTranslator<
+  Key extends string,
+  Namespace extends string,
+  Params extends object = Record<never, never>,
+>(
+  translator: TranslateFunction<Key, Params>,
+  namespace: Namespace,
+): TranslateFunction<NamespaceKeys<Key, Namespace>, NamespaceParams<Params, Namespace>>;
+/**
+ * Namespaces a plain translation function, such as a test double. `list()`, `raw()` and
+ * `rich()` throw unless the function has them.
+ */
 export function createNamespacedTranslator(
-  translator: (key: string) => string,
+  translator: (key: string, params?: TranslationParams) => string,
   namespace: string,
-): (key: string) => string {
-  return (key: string): string => {
-    // If the key is empty, just use the namespace itself
-    if (!key) {
-      return translator(namespace);
+): TranslateFunction;
+export function createNamespacedTranslator(
+  translator: ((key: string, params?: TranslationParams) => string) & Partial<TranslateMethods>,
+  namespace: string,
+): TranslateFunction {
+  // Prepend the namespace to the key. If the key is empty, just use the namespace itself
+  const withNamespace = (key: string) => key ? `${namespace}.${key}` : namespace;
+  const methods: Partial<TranslateMethods> = translator;
+  const method = <Name extends keyof TranslateMethods>(name: Name): TranslateMethods[Name] => {
+    const fn = methods[name];
+    if (!fn) {
+      throw new TypeError(`The translator of namespace "${namespace}" has no ${name}() method`);
     }
-    // Prepend the namespace to the key
-    return translator(`${namespace}.${key}`);
+    return fn;
   };
+
+  return Object.assign(
+    (key: string, params?: TranslationParams): string => translator(withNamespace(key), params),
+    {
+      list: <Item>(key: string, params?: TranslationParams) =>
+        method("list")<Item>(withNamespace(key), params),
+      raw: <Value>(key: string, params?: TranslationParams) =>
+        method("raw")<Value>(withNamespace(key), params),
+      rich: <Node>(key: string, components: RichTextComponents<Node>, params?: TranslationParams) =>
+        method("rich")<Node>(withNamespace(key), components, params),
+    },
+  );
 }
@@ -0,0 +1,99 @@
+import { getMessageParams } from "./message-format.ts";
+import type { TranslationLoaders } from "./file-loaders.ts";
+import { loadLocale } from "./translation-loader.ts";
+
+/**
+ * Options for generating translation key types.
+ */
+export interface TypegenOptions {
+  /** Path to the directory containing locale folders */
+  localesDir: string;
+  /** Locale whose keys define the types (usually `defaultLanguage`) */
+  defaultLanguage: string;
+  /** Custom loaders keyed by file extension, merged with the built-in ones */
+  loaders?: TranslationLoaders;
+}
+
+/**
+ * Generates a `.d.ts` declaring every translation key of the default locale.
+ * Keys are discovered exactly like the middleware does (nested folders, kebab-case to camelCase).
+ *
+ * The output declares:
+ * - `TranslationKey`: union of all keys
+ * - `TranslationKeyParams`: interpolation params of each key, passed as the second type
+ *   argument of `TranslationState`, `useTranslation()` or `TranslateFunction`
+ *
+ * @param options - Generator options
+ * @returns The declaration file content
+ */
+export async function generateTranslationTypes(
+  { localesDir, defaultLanguage, loaders }: TypegenOptions,
+): Promise<string> {
+  const catalog = await loadLocale(localesDir, defaultLanguage, { loaders });
+  const messages = new Map<string, unknown>();
+  for (const { data } of catalog.values()) {
+    for (const [key, value] of Object.entries(data)) messages.set(key, value);
+  }
+
+  const keys = [...messages.keys()].sort();
+  const lines = [
+    "// This file is generated by @xiayun/fresh-i18n. Do not edit it manually.",
+    `// Source: ${localesDir}/${defaultLanguage}`,
+    "",
+    "/** All translation keys of the default locale */",
+    keys.length > 0
+      ? `export type TranslationKey =\n${
+        keys.map((key) => `  | ${JSON.stringify(key)}`).join("\n")
+      };`
+      : "export type TranslationKey = never;",
+    "",
+    "/** Interpolation params of each translation key */",
+    "export interface TranslationKeyParams {",
+  ];
+
+  for (const key of keys) {
+    const value = messages.get(key);
+    const params = typeof value === "string" ? getMessageParams(value) : new Map();
+    const type = params.size === 0
+      ? "Record<never, never>"
+      : `{ ${[...params].map(([name, type]) => `${JSON.stringify(name)}: ${type}`).join("; ")} }`;
+    lines.push(`  ${JSON.stringify(key)}: ${type};`);
+  }
+
+  lines.push("}", "");
+  return lines.join("\n");
+}
+
+/**
+ * Generates translation key types and writes them to a file.
+ * Only writes when the content changed, so file watchers aren't triggered needlessly.
+ *
+ * @param options - Generator options and the output file path
+ * @returns true if the file was written
+ *
+ * @example
+ * ```typescript
+ * // scripts/i18n-types.ts, run with `deno run -A scripts/i18n-types.ts`
+ * import { writeTranslationTypes } from "@xiayun/fresh-i18n";
+ *
+ * await writeTranslationTypes({
+ *   localesDir: "./locales",
+ *   defaultLanguage: "en",
+ *   outFile: "./i18n.d.ts",
+ * });
+ * ```
+ */
+export async function writeTranslationTypes(
+  options: TypegenOptions & { outFile: string },
+): Promise<boolean> {
+  const content = await generateTranslationTypes(options);
+
+  try {
+    if (await Deno.readTextFile(options.outFile) === content) return false;
+  } catch {
+    // File doesn't exist yet
+  }
+
+  await Deno.writeTextFile(options.outFile, content);
+  return true;
+}
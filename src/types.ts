@@ -1,4 +1,8 @@
-import type { TranslationConfig } from "./translator.ts";
+import type { FormatPresets, Formatter } from "./formatters.ts";
+import type { LocaleCookieConfig } from "./locale-detection.ts";
+import type { RoutingConfig } from "./locale-routing.ts";
+import type { NamespaceManifest } from "./namespace-manifest.ts";
+import type { TranslateFunction, TranslationConfig } from "./translator.ts";
 
 /**
  * State object extended by the i18n plugin middleware.
@@ -11,9 +15,16 @@ import type { TranslationConfig } from "./translator.ts";
  * export interface State extends TranslationState {
  *   // Your custom state properties
  * }
+ *
+ * // With keys and params generated by `writeTranslationTypes()`
+ * import type { TranslationKey, TranslationKeyParams } from "./i18n.d.ts";
+ * export interface State extends TranslationState<TranslationKey, TranslationKeyParams> {}
  * ```
  */
-export interface TranslationState extends Record<string, unknown> {
+export interface TranslationState<
+  Key extends string = string,
+  Params extends object = Record<never, never>,
+> extends Record<string, unknown> {
   /** Flat translation data object with dot-separated keys */
   translationData: Record<string, unknown>;
   /** Configuration for translation behavior */
@@ -22,8 +33,39 @@ export interface TranslationState extends Record<string, unknown> {
   path: string;
   /** Current locale code (e.g., "en", "es") */
   locale: string;
-  /** Translation function that takes a key and returns translated text */
-  t: (key: string) => string;
+  /**
+   * Detection strategy that chose the locale: "path", "cookie", "query", "header", "host",
+   * the name of a custom detector ("custom" for plain functions), or "default" if none matched.
+   * Always set by the middleware; optional so states built by hand (e.g., in tests) still
+   * type-check.
+   */
+  localeSource?: string;
+  /**
+   * Translation function that takes a key (and optional placeholder values) and returns translated text
+   * @example
+   * state.t("common.greeting", { name: "Ana" })
+   */
+  t: TranslateFunction<Key, Params>;
+  /**
+   * Number, currency, date, time, relative time and list formatters for the current locale.
+   * States built by hand (e.g., in tests) can use `createFormatter(locale)`.
+   * @example
+   * state.fmt.currency(9.99, "EUR")
+   */
+  fmt: Formatter;
+}
+
+/**
+ * State fields the i18n middleware sets, whatever the key and params types of `t`.
+ * Every `TranslationState` has them, so `i18n<State>()` accepts any app state extending it.
+ */
+export interface I18nBaseState extends Record<string, unknown> {
+  translationData: Record<string, unknown>;
+  path: string;
+  locale: string;
+  localeSource?: string;
+  t: unknown;
+  fmt: Formatter;
 }
 
 /**
@@ -55,7 +97,9 @@ export interface ClientLoadConfig {
 
   /**
    * Route pattern to namespace mapping.
-   * Patterns use greedy wildcard matching where * matches any path segment(s).
+   * Patterns use `URLPattern` pathname syntax: `*` matches any characters (including "/"),
+   * anywhere in the path; `:id` matches one segment; `{…}?` groups are optional.
+   * A pattern starting with "!" removes its namespaces on matching paths.
    *
    * IMPORTANT: Route patterns are about WHEN to load translations, not HOW to organize files.
    * A pattern like "/indicators/*" might load "features.indicators.*" which could include:
@@ -69,10 +113,37 @@ export interface ClientLoadConfig {
    * {
    *   "/indicators/*": ["features.indicators"],  // Loads ALL features.indicators.* files
    *   "/admin/*": ["features.admin", "features.users"],
+   *   "!/admin/login": ["features.admin", "features.users"], // Not on the login page
+   *   "/projects/:id/settings": ["features.settings"],
+   *   "/projects/:id{/edit}?": ["features.projects"],
    * }
    */
   routes: Record<string, string[]>;
 
+  /**
+   * How to combine several routes matching the same URL:
+   * - "all": load the namespaces of every matching route
+   * - "most-specific": load only those of the most specific route, comparing segments left
+   *   to right (static, then `:param`, then `*`). Overlap warnings are skipped in this mode.
+   *
+   * @default "all"
+   */
+  match?: "all" | "most-specific";
+
+  /**
+   * Namespaces per route generated by `buildNamespaceManifest()` (or `cli manifest`) from the
+   * islands each route renders. Matching manifest routes are always merged; `routes` entries
+   * add namespaces on top, and their exclusions apply to the manifest too.
+   *
+   * @example
+   * ```typescript
+   * import manifest from "./i18n-manifest.json" with { type: "json" };
+   *
+   * clientLoad: { always: ["common"], routes: {}, manifest }
+   * ```
+   */
+  manifest?: NamespaceManifest;
+
   /**
    * Behavior when no route pattern matches the current URL.
    * - "none": Load nothing - no script injection (best for hybrid migration)
@@ -101,6 +172,63 @@ export interface ClientLoadConfig {
    * @default true
    */
   warnOnOverlap?: boolean;
+
+  /**
+   * Serve namespaces as JSON at `/_i18n/{locale}/{namespace}.json`, so islands can fetch
+   * namespaces that weren't injected with `loadNamespaces()` or `useTranslation(namespaces)`.
+   * Uses the same translations and fallback rules as the middleware.
+   * Every namespace of the catalog becomes public, including ones only used on the server.
+   * Required by `setLocale()`.
+   *
+   * @default false
+   */
+  endpoint?: boolean;
+
+  /**
+   * Serve client translations as scripts at content-hashed URLs
+   * (`/_i18n/{locale}/bundle.{hash}.js`) instead of inlining them into every page.
+   * Bundles are cached immutably by browsers and CDNs; their hash changes only when the
+   * translations change.
+   *
+   * @default false
+   */
+  bundle?: boolean;
+
+  /**
+   * How inline client translations are emitted:
+   * - "script": a script assigning `window.__I18N__`
+   * - "json": a `<script type="application/json" id="__I18N_DATA__">` data block, read by the
+   *   client hooks on first use. It is never executed, so a strict Content-Security-Policy
+   *   needs no nonce for it.
+   *   Cannot be combined with `bundle`.
+   *
+   * @default "script"
+   */
+  inject?: "script" | "json";
+}
+
+/**
+ * Translation data injected into the page as `window.__I18N__`.
+ */
+export interface ClientTranslationData {
+  /** Flat translations of the injected namespaces */
+  translations: Record<string, unknown>;
+  /** Current locale code */
+  locale: string;
+  /** Default locale code */
+  defaultLocale: string;
+  /** Format presets for `useFormatter()` */
+  formats?: FormatPresets;
+  /** Injected namespaces; empty when every namespace was injected */
+  namespaces?: string[];
+  /** Base path of the namespace endpoint, when it is enabled */
+  endpoint?: string;
+  /** Supported locales, used by `setLocale()` */
+  languages?: string[];
+  /** Locale prefix policy of the `routing` option, used by `setLocale()` to rewrite the URL */
+  routing?: RoutingConfig["prefix"];
+  /** Settings of the locale cookie, when detection persists the locale */
+  cookie?: LocaleCookieConfig;
 }
 
 /**
@@ -139,7 +267,7 @@ export type MiddlewareFn<State> = (
  * ```
  */
 export interface I18nOptions {
-  /** Array of supported language codes */
+  /** Array of supported BCP 47 language tags */
   languages: string[];
   /** Default language to use when no preference is detected */
   defaultLanguage: string;
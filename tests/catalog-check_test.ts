@@ -0,0 +1,173 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert@^1.0.0";
+import { checkCatalogs, formatCheckReport } from "../src/catalog-check.ts";
+import { createLocales } from "./fixtures.ts";
+
+Deno.test("checkCatalogs - reports no issues for consistent catalogs", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { title: "Title", greeting: "Hello {name}" },
+    "es/common.json": { title: "Título", greeting: "Hola {name}" },
+  });
+
+  try {
+    const report = await checkCatalogs({ localesDir, defaultLanguage: "en" });
+
+    assertEquals(report.locales, ["en", "es"]);
+    assertEquals(report.keyCount, 2);
+    assertEquals(report.issues, []);
+    assertStringIncludes(formatCheckReport(report), "✅ No issues found");
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("checkCatalogs - reports missing, extra and mismatched keys", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { title: "Title", save: "Save", steps: ["One", "Two"], max: 3 },
+    "en/features/user-settings.json": { name: "Name" },
+    "es/common.json": { title: "Título", steps: "Uno, dos", max: 3, removed: "Quitado" },
+    "es/features/user-settings.json": { name: "Nombre" },
+  });
+
+  try {
+    const report = await checkCatalogs({ localesDir, defaultLanguage: "en" });
+    const summary = report.issues.map(({ type, severity, locale, key, file }) => ({
+      type,
+      severity,
+      locale,
+      key,
+      file,
+    }));
+
+    assertEquals(summary, [
+      {
+        type: "type-mismatch",
+        severity: "error",
+        locale: "es",
+        key: "common.steps",
+        file: "es/common.json",
+      },
+      {
+        type: "extra-key",
+        severity: "warning",
+        locale: "es",
+        key: "common.removed",
+        file: "es/common.json",
+      },
+      {
+        type: "missing-key",
+        severity: "error",
+        locale: "es",
+        key: "common.save",
+        file: "es/common.json",
+      },
+    ]);
+    assertEquals(report.errorCount, 2);
+    assertEquals(report.warningCount, 1);
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("checkCatalogs - reports placeholder mismatches", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": {
+      greeting: "Hello {name}",
+      files: "{count, plural, one {# file} other {# files}}",
+    },
+    "es/common.json": {
+      greeting: "Hola {nombre}",
+      files: "{count, plural, one {# archivo} other {# archivos}}",
+    },
+  });
+
+  try {
+    const report = await checkCatalogs({ localesDir, defaultLanguage: "en" });
+
+    assertEquals(report.issues.length, 1);
+    assertEquals(report.issues[0].type, "placeholder-mismatch");
+    assertEquals(report.issues[0].key, "common.greeting");
+    assertEquals(
+      report.issues[0].message,
+      "Placeholders differ from en: expected {name}, found {nombre}",
+    );
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("checkCatalogs - reports empty, invalid and missing locale files", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { title: "Title" },
+    "en/empty.json": "",
+    "es/common.json": "{ invalid",
+  });
+
+  try {
+    const report = await checkCatalogs({
+      localesDir,
+      defaultLanguage: "en",
+      languages: ["en", "es", "fr"],
+    });
+    const types = report.issues.map(({ type, locale }) => `${locale}:${type}`);
+
+    assertEquals(types, [
+      "en:empty-file",
+      "es:invalid-file",
+      "es:missing-key",
+      "fr:missing-locale",
+    ]);
+    assertEquals(report.errorCount, 3);
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("checkCatalogs - reports namespace and key collisions", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { actions: { save: "Save" } },
+    "en/common/actions.json": { save: "Save" },
+    "en/user-settings.json": { title: "Settings" },
+    "en/user_settings.json": { title: "Settings" },
+  });
+
+  try {
+    const report = await checkCatalogs({ localesDir, defaultLanguage: "en" });
+
+    assertEquals(
+      report.issues.map(({ type, key, file, message }) => ({ type, key, file, message })),
+      [
+        {
+          type: "collision",
+          key: undefined,
+          file: "en/user_settings.json",
+          message: 'Namespace "userSettings" is also defined by en/user-settings.json',
+        },
+        {
+          type: "collision",
+          key: "common.actions.save",
+          file: "en/common/actions.json",
+          message: "Key is also defined in en/common.json",
+        },
+      ],
+    );
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("formatCheckReport - groups issues by locale", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { title: "Title" },
+    "es/common.json": {},
+  });
+
+  try {
+    const output = formatCheckReport(await checkCatalogs({ localesDir, defaultLanguage: "en" }));
+
+    assertStringIncludes(output, "es:\n");
+    assertStringIncludes(output, '❌ [missing-key] "common.title": Missing translation');
+    assertStringIncludes(output, "1 error(s), 1 warning(s)");
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
@@ -0,0 +1,84 @@
+import {
+  assertEquals,
+  assertNotEquals,
+  assertNotStrictEquals,
+  assertStrictEquals,
+} from "jsr:@std/assert@^1.0.0";
+import {
+  getBundleUrl,
+  getClientBundle,
+  isBundlePath,
+  parseBundleUrl,
+  serializeClientData,
+} from "../src/client-bundle.ts";
+
+const data = {
+  translations: { "common.title": "</script><b>" },
+  locale: "es",
+  defaultLocale: "en",
+  namespaces: ["common"],
+};
+
+Deno.test("serializeClientData - escapes markup", () => {
+  assertEquals(
+    serializeClientData(data).includes("\\u003c/script\\u003e\\u003cb\\u003e"),
+    true,
+  );
+});
+
+Deno.test("getClientBundle - hashes the content and caches per source", async () => {
+  const source = {};
+  const bundle = await getClientBundle(data, source);
+
+  assertEquals(bundle.body, `window.__I18N__=${serializeClientData(data)};\n`);
+  assertEquals(/^[0-9a-f]{16}$/.test(bundle.hash), true);
+  assertEquals(await getClientBundle(data, source), bundle);
+
+  // Same content from reloaded translations keeps the hash
+  assertEquals((await getClientBundle({ ...data }, {})).hash, bundle.hash);
+
+  const changed = { ...data, translations: { "common.title": "Título" } };
+  assertNotEquals((await getClientBundle(changed, {})).hash, bundle.hash);
+});
+
+Deno.test("getClientBundle - keeps a bounded number of namespace sets per source", async () => {
+  const source = {};
+  const get = (namespace: string) => getClientBundle({ ...data, namespaces: [namespace] }, source);
+  const first = get("ns0");
+  const second = get("ns1");
+
+  for (let i = 2; i < 100; i++) {
+    await get(`ns${i}`);
+  }
+  // Used again, so "ns1" becomes the least recently used set
+  assertStrictEquals(get("ns0"), first);
+
+  await get("ns100");
+  assertStrictEquals(get("ns0"), first);
+  assertNotStrictEquals(get("ns1"), second);
+});
+
+Deno.test("getBundleUrl - round-trips through parseBundleUrl", () => {
+  const url = getBundleUrl("pt-BR", ["common", "features.reports"], "3f2a9c1d");
+  assertEquals(url, "/_i18n/pt-BR/bundle.3f2a9c1d.js?ns=common,features.reports");
+
+  assertEquals(parseBundleUrl(new URL(url, "http://localhost"), ["en", "pt-BR"]), {
+    locale: "pt-BR",
+    namespaces: ["common", "features.reports"],
+    hash: "3f2a9c1d",
+  });
+  assertEquals(getBundleUrl("es", [], "ab"), "/_i18n/es/bundle.ab.js");
+});
+
+Deno.test("parseBundleUrl - rejects other paths and unsupported locales", () => {
+  const parse = (path: string) => parseBundleUrl(new URL(path, "http://localhost"), ["en"]);
+
+  assertEquals(parse("/_i18n/fr/bundle.ab.js"), null);
+  assertEquals(parse("/_i18n/en/common.json"), null);
+  assertEquals(parse("/_i18n/en/bundle.xyz.js"), null);
+  assertEquals(parse("/_i18n/en/bundle.ab.js")?.namespaces, []);
+  assertEquals(parse("/_i18n/%E0/bundle.ab.js"), null);
+  assertEquals(isBundlePath("/_i18n/%E0/bundle.ab.js"), true);
+  assertEquals(isBundlePath("/_i18n/en/common.json"), false);
+  assertEquals(parse("/_i18n/en/bundle.ab.js?ns=common,../secret"), null);
+});
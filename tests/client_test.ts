@@ -0,0 +1,236 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert@^1.0.0";
+import {
+  getTranslationData,
+  loadNamespaces,
+  localeStore,
+  setLocale,
+  useLocale,
+  useTranslation,
+} from "../src/client.ts";
+import { runWithTranslationData } from "../src/request-scope.ts";
+import { renderHook } from "./fixtures.ts";
+
+type Global = { __I18N__?: unknown };
+
+// Serves namespace requests from a map of URL -> translations and records them
+function stubFetch(responses: Record<string, Record<string, unknown>>): {
+  requested: string[];
+  restore: () => void;
+} {
+  const requested: string[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = String(input);
+    requested.push(url);
+    return Promise.resolve(
+      url in responses ? Response.json(responses[url]) : new Response(null, { status: 404 }),
+    );
+  };
+  return { requested, restore: () => globalThis.fetch = originalFetch };
+}
+
+Deno.test("useTranslation - uses the request's data during server rendering", async () => {
+  const data = {
+    translations: { "common.save": "Guardar" },
+    locale: "es",
+    defaultLocale: "en",
+  };
+
+  const rendered = await runWithTranslationData(() => data, async () => {
+    await Promise.resolve(); // The scope survives awaits, like rendering after ctx.next()
+    return renderHook(() => [useTranslation()("common.save"), useLocale()]);
+  });
+
+  assertEquals(rendered, ["Guardar", "es"]);
+  // Outside of a request, the passthrough is kept
+  assertEquals(
+    renderHook(() => [useTranslation()("common.save"), useLocale()]),
+    ["[common.save]", "en"],
+  );
+});
+
+Deno.test("useTranslation - calls the same hooks with or without data", () => {
+  const { requested, restore } = stubFetch({});
+
+  try {
+    // Without data the namespaces are ignored, on the server as in a page without injection
+    const t = renderHook(() => useTranslation(["features.reports"]));
+    assertEquals(t("features.reports.title"), "[features.reports.title]");
+
+    const rendered = runWithTranslationData(
+      () => ({ translations: { "common.save": "Guardar" }, locale: "es", defaultLocale: "en" }),
+      () => renderHook(() => useTranslation(["common"])("common.save")),
+    );
+    assertEquals(rendered, "Guardar");
+    assertEquals(requested, []);
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("localeStore - reads the locale of each request during server rendering", () => {
+  const render = (locale: string) =>
+    runWithTranslationData(
+      () => ({ translations: {}, locale, defaultLocale: "en" }),
+      () => localeStore.locale.value,
+    );
+
+  assertEquals(render("es"), "es");
+  assertEquals(render("en"), "en");
+});
+
+Deno.test("getTranslationData - parses the JSON data block once", () => {
+  const data = { translations: { "common.save": "Guardar" }, locale: "es", defaultLocale: "en" };
+  let reads = 0;
+  (globalThis as { document?: unknown }).document = {
+    getElementById: (id: string) => {
+      reads++;
+      return id === "__I18N_DATA__" ? { textContent: JSON.stringify(data) } : null;
+    },
+  };
+
+  try {
+    assertEquals(getTranslationData(), data);
+    assertEquals(renderHook(() => useTranslation()("common.save")), "Guardar");
+    assertEquals(reads, 1);
+  } finally {
+    delete (globalThis as { document?: unknown }).document;
+    delete (globalThis as Global).__I18N__;
+  }
+});
+
+Deno.test("useTranslation - explains and reports keys of namespaces that weren't injected", () => {
+  const diagnostics = { path: "/reports/7", patterns: ["/*"], available: ["features.reports"] };
+  (globalThis as Global).__I18N__ = {
+    translations: { "common.save": "Guardar" },
+    locale: "es",
+    defaultLocale: "en",
+    namespaces: ["common"],
+  };
+  (globalThis as { document?: unknown }).document = {
+    getElementById: (id: string) =>
+      id === "__I18N_DIAGNOSTICS__" ? { textContent: JSON.stringify(diagnostics) } : null,
+  };
+  const { requested, restore } = stubFetch({});
+  const warnings: string[] = [];
+  const originalWarn = console.warn;
+  console.warn = (message: string) => warnings.push(message);
+
+  try {
+    const t = renderHook(() => useTranslation());
+    t("features.reports.title");
+    t("features.reports.title");
+
+    assertEquals(warnings.length, 2);
+    assertEquals(
+      warnings[0],
+      '❌ Missing translation key: "features.reports.title" [locale: es] - it exists in ' +
+        'namespace "features.reports", add it to clientLoad.routes for a pattern matching ' +
+        "/reports/7 (matched: /*)",
+    );
+    assertEquals(requested, ["/_i18n/missing"]);
+  } finally {
+    console.warn = originalWarn;
+    restore();
+    delete (globalThis as { document?: unknown }).document;
+    delete (globalThis as Global).__I18N__;
+  }
+});
+
+Deno.test("loadNamespaces - fetches missing namespaces once and merges them", async () => {
+  const data = {
+    translations: { "common.title": "Title" },
+    locale: "es",
+    defaultLocale: "en",
+    namespaces: ["common"],
+    endpoint: "/_i18n",
+  };
+  const { requested, restore } = stubFetch({
+    "/_i18n/es/features.reports.json": { "features.reports.title": "Informes" },
+  });
+  (globalThis as Global).__I18N__ = data;
+
+  try {
+    await Promise.all([
+      loadNamespaces(["common", "features.reports"]),
+      loadNamespaces(["features.reports"]),
+    ]);
+    await loadNamespaces(["features.reports"]);
+
+    assertEquals(requested, ["/_i18n/es/features.reports.json"]);
+    assertEquals(data.translations, {
+      "common.title": "Title",
+      "features.reports.title": "Informes",
+    });
+    assertEquals(data.namespaces, ["common", "features.reports"]);
+  } finally {
+    restore();
+    delete (globalThis as Global).__I18N__;
+  }
+});
+
+Deno.test("setLocale - swaps translations of every injected namespace", async () => {
+  const data = {
+    translations: { "common.title": "Title", "features.reports.title": "Reports" },
+    locale: "en",
+    defaultLocale: "en",
+    namespaces: ["common", "features.reports"],
+    endpoint: "/_i18n",
+    languages: ["en", "es"],
+  };
+  const { requested, restore } = stubFetch({
+    "/_i18n/es/common.json": { "common.title": "Título" },
+  });
+  (globalThis as Global).__I18N__ = data;
+
+  try {
+    assertEquals(localeStore.locale.value, "en");
+    await setLocale("ES");
+
+    assertEquals(requested, ["/_i18n/es/common.json", "/_i18n/es/features.reports.json"]);
+    assertEquals(data.locale, "es");
+    assertEquals(data.translations, { "common.title": "Título" });
+    assertEquals(localeStore.locale.value, "es");
+    assertEquals(localeStore.loading.value, false);
+    assertEquals(renderHook(() => useTranslation()("common.title")), "Título");
+
+    await assertRejects(() => setLocale("fr"), Error, 'Unsupported locale "fr"');
+  } finally {
+    restore();
+    delete (globalThis as Global).__I18N__;
+  }
+});
+
+Deno.test("setLocale - switching back during a load keeps the current locale", async () => {
+  const data = {
+    translations: { "common.title": "Title" },
+    locale: "en",
+    defaultLocale: "en",
+    namespaces: ["common"],
+    endpoint: "/_i18n",
+    languages: ["en", "es"],
+  };
+  let respond = () => {};
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = () =>
+    new Promise((resolve) => {
+      respond = () => resolve(Response.json({ "common.title": "Título" }));
+    });
+  (globalThis as Global).__I18N__ = data;
+
+  try {
+    const toSpanish = setLocale("es", { updateUrl: false });
+    assertEquals(localeStore.loading.value, true);
+
+    await setLocale("en", { updateUrl: false });
+    respond();
+    await toSpanish;
+
+    assertEquals(data.locale, "en");
+    assertEquals(data.translations, { "common.title": "Title" });
+    assertEquals(localeStore.loading.value, false);
+  } finally {
+    globalThis.fetch = originalFetch;
+    delete (globalThis as Global).__I18N__;
+  }
+});
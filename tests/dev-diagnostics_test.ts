@@ -0,0 +1,70 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import {
+  findMissingKeyNamespace,
+  formatMissingKeyMessage,
+  getAvailableNamespaces,
+  parseMissingKeyReport,
+} from "../src/dev-diagnostics.ts";
+
+const DIAGNOSTICS = {
+  path: "/reports/7",
+  patterns: ["/*", "/reports/:id"],
+  available: ["features.reports", "features.settings"],
+};
+
+Deno.test("getAvailableNamespaces - lists namespaces that weren't injected", () => {
+  const all = {
+    "common.save": "Save",
+    "features.reports.title": "Reports",
+    "features.reports.charts.empty": "No data",
+    "features.settings.title": "Settings",
+    "footer": "Footer",
+  };
+  assertEquals(
+    getAvailableNamespaces(all, { "common.save": "Save", "features.settings.title": "Settings" }),
+    ["features.reports", "footer"],
+  );
+  assertEquals(getAvailableNamespaces(all, all), []);
+});
+
+Deno.test("findMissingKeyNamespace - finds the namespace holding the key", () => {
+  assertEquals(
+    findMissingKeyNamespace("features.reports.charts.empty", DIAGNOSTICS, ["common"]),
+    "features.reports",
+  );
+  assertEquals(findMissingKeyNamespace("features.typo", DIAGNOSTICS, ["common"]), undefined);
+});
+
+Deno.test("findMissingKeyNamespace - ignores namespaces loaded after rendering", () => {
+  assertEquals(
+    findMissingKeyNamespace("features.reports.title", DIAGNOSTICS, ["common", "features"]),
+    undefined,
+  );
+});
+
+Deno.test("formatMissingKeyMessage - suggests the route only when the namespace is known", () => {
+  const report = { key: "features.reports.title", locale: "es", path: "/reports/7", patterns: [] };
+  assertEquals(
+    formatMissingKeyMessage(report),
+    'Missing translation key: "features.reports.title" [locale: es]',
+  );
+  assertEquals(
+    formatMissingKeyMessage({ ...report, namespace: "features.reports" }),
+    'Missing translation key: "features.reports.title" [locale: es] - it exists in namespace ' +
+      '"features.reports", add it to clientLoad.routes for a pattern matching /reports/7 ' +
+      "(matched: none)",
+  );
+});
+
+Deno.test("parseMissingKeyReport - accepts reports and rejects other bodies", () => {
+  const report = { key: "a.b", locale: "es", path: "/", patterns: ["/*"], namespace: "a" };
+  assertEquals(parseMissingKeyReport(report), report);
+  assertEquals(parseMissingKeyReport({ ...report, namespace: undefined }), {
+    ...report,
+    namespace: undefined,
+  });
+  assertEquals(parseMissingKeyReport({ ...report, patterns: [1] }), null);
+  assertEquals(parseMissingKeyReport({ key: "a.b" }), null);
+  assertEquals(parseMissingKeyReport("a.b"), null);
+  assertEquals(parseMissingKeyReport(null), null);
+});
@@ -0,0 +1,95 @@
+import { assertEquals, assertRejects, assertStringIncludes } from "jsr:@std/assert@^1.0.0";
+import {
+  findDuplicateJsonKeys,
+  formatFileIssue,
+  getErrorLocation,
+  TranslationFileError,
+} from "../src/file-diagnostics.ts";
+import { loadLocale } from "../src/translation-loader.ts";
+import { createErrorOverlayResponse } from "../src/error-overlay.ts";
+import { createLocales } from "./fixtures.ts";
+
+Deno.test("getErrorLocation - reads line and column from parser errors", () => {
+  const content = '{\n  "a": "1",\n}';
+
+  assertEquals(getErrorLocation(new SyntaxError("Unexpected token } at position 14"), content), {
+    line: 3,
+    column: 1,
+  });
+  assertEquals(getErrorLocation(new Error("bad indentation at line 4, column 7"), ""), {
+    line: 4,
+    column: 7,
+  });
+  assertEquals(
+    getErrorLocation(Object.assign(new Error("x"), { lineNumber: 2, columnNumber: 9 }), ""),
+    {
+      line: 2,
+      column: 9,
+    },
+  );
+  assertEquals(getErrorLocation(new Error("no location"), content), {});
+});
+
+Deno.test("findDuplicateJsonKeys - finds repeated keys per object", () => {
+  const content = '{"a": "1", "nested": {"a": "2", "b": ["a", "a"], "b": "3"}, "a": "4"}';
+
+  assertEquals(findDuplicateJsonKeys(content).map(({ key }) => key), ["b", "a"]);
+  assertEquals(findDuplicateJsonKeys('{"a\\"b": "1", "a\\"b": "2"}'), [{ key: 'a"b', offset: 14 }]);
+});
+
+Deno.test("loadLocale - strict mode reports every malformed file", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": '{\n  "title": "Title",\n}',
+    "en/features/dashboard.json": '{\n  "title": "A",\n  "title": "B"\n}',
+    "en/list.json": '["not", "an", "object"]',
+    "en/valid.json": '{ "ok": "Ok" }',
+  });
+
+  try {
+    const error = await assertRejects(
+      () => loadLocale(localesDir, "en", { strict: true }),
+      TranslationFileError,
+    );
+    const issues = error.issues
+      .map((issue) => ({ ...issue, filePath: issue.filePath.slice(localesDir.length + 1) }))
+      .sort((a, b) => a.filePath.localeCompare(b.filePath));
+
+    assertEquals(issues.map(({ filePath, line, column }) => ({ filePath, line, column })), [
+      { filePath: "en/common.json", line: 3, column: 1 },
+      { filePath: "en/features/dashboard.json", line: 3, column: 3 },
+      { filePath: "en/list.json", line: 1, column: 1 },
+    ]);
+    assertStringIncludes(issues[1].message, 'Duplicate key "title"');
+    assertStringIncludes(issues[2].message, "Root value must be an object, found an array");
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("loadLocale - lenient mode loads malformed files as empty", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": '{ "title": "Title", }',
+    "en/valid.json": '{ "ok": "Ok", "ok": "Last" }',
+  });
+
+  try {
+    const catalog = await loadLocale(localesDir, "en");
+
+    assertEquals(catalog.get("common")?.data, {});
+    assertEquals(catalog.get("valid")?.data, { "valid.ok": "Last" });
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("createErrorOverlayResponse - lists escaped issues", async () => {
+  const error = new TranslationFileError([
+    { filePath: "locales/en/<common>.json", message: "Unexpected token", line: 2, column: 4 },
+  ]);
+  const response = createErrorOverlayResponse(error);
+  const html = await response.text();
+
+  assertEquals(response.status, 500);
+  assertEquals(formatFileIssue(error.issues[0]), "locales/en/<common>.json:2:4 Unexpected token");
+  assertStringIncludes(html, "locales/en/&#60;common&#62;.json:2:4 Unexpected token");
+});
@@ -0,0 +1,117 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.0";
+import { getLoaderExtension, parsePo, resolveLoaders } from "../src/file-loaders.ts";
+import { loadLocale } from "../src/translation-loader.ts";
+import { getLocaleChange } from "../src/hot-reload.ts";
+import { createLocales } from "./fixtures.ts";
+
+Deno.test("loadLocale - produces the same keys for every file format", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": JSON.stringify({ actions: { save: "Save" } }),
+    "en/user-settings.yaml":
+      "# Comment\nform:\n  name: Name\n  bio: |\n    Line one\n    Line two\n",
+    "en/features/reports.yml": "title: Reports\n",
+    "en/legacy.json5": "{ title: 'Legacy', /* comment */ count: '{n} items', }",
+    "en/billing.toml": 'title = "Billing"\n\n[invoice]\ntotal = "Total: {amount}"\n',
+    "en/old-module.po": [
+      'msgid ""',
+      'msgstr "Content-Type: text/plain; charset=UTF-8\\n"',
+      "",
+      "#: routes/index.tsx",
+      'msgid "title"',
+      'msgstr "Old module"',
+      "",
+      'msgctxt "actions"',
+      'msgid "save"',
+      'msgstr ""',
+      '"Save "',
+      '"changes"',
+    ].join("\n"),
+  });
+
+  try {
+    const catalog = await loadLocale(localesDir, "en");
+    const data = Object.assign({}, ...[...catalog.values()].map(({ data }) => data));
+
+    assertEquals(data, {
+      "common.actions.save": "Save",
+      "userSettings.form.name": "Name",
+      "userSettings.form.bio": "Line one\nLine two\n",
+      "features.reports.title": "Reports",
+      "legacy.title": "Legacy",
+      "legacy.count": "{n} items",
+      "billing.title": "Billing",
+      "billing.invoice.total": "Total: {amount}",
+      "oldModule.title": "Old module",
+      "oldModule.actions.save": "Save changes",
+    });
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("loadLocale - uses custom loaders", async () => {
+  const localesDir = await createLocales({
+    "en/common.properties": "title=Title\nactions.save=Save",
+    "en/ignored.txt": "not a translation file",
+  });
+
+  try {
+    const catalog = await loadLocale(localesDir, "en", {
+      loaders: {
+        properties: (content) =>
+          Object.fromEntries(content.split("\n").map((line) => line.split("="))),
+      },
+    });
+
+    assertEquals([...catalog.keys()], ["common"]);
+    assertEquals(catalog.get("common")?.data, {
+      "common.title": "Title",
+      "common.actions.save": "Save",
+    });
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("parsePo - skips untranslated and plural entries", () => {
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    const result = parsePo([
+      'msgid "empty"',
+      'msgstr ""',
+      "",
+      'msgid "file"',
+      'msgid_plural "files"',
+      'msgstr[0] "file"',
+      'msgstr[1] "files"',
+      "",
+      'msgid "quote"',
+      'msgstr "Say \\"hi\\""',
+    ].join("\n"));
+
+    assertEquals(result, { quote: 'Say "hi"' });
+  } finally {
+    console.warn = warn;
+  }
+});
+
+Deno.test("parsePo - rejects invalid lines", () => {
+  assertThrows(() => parsePo('msgid "a"\nmsgstr "b"\ninvalid line'), SyntaxError);
+});
+
+Deno.test("resolveLoaders - normalizes extensions", () => {
+  const loaders = resolveLoaders({ PROPERTIES: () => ({}) });
+
+  assertEquals(getLoaderExtension("common.properties", loaders), ".properties");
+  assertEquals(getLoaderExtension("common.YAML", loaders), ".yaml");
+  assertEquals(getLoaderExtension("notes.txt", loaders), null);
+});
+
+Deno.test("getLocaleChange - maps any translation file format to its namespace", () => {
+  assertEquals(getLocaleChange("/app/locales", "/app/locales/es/user-settings.yaml"), {
+    locale: "es",
+    namespace: "userSettings",
+  });
+  assertEquals(getLocaleChange("/app/locales", "/app/locales/es/notes.txt"), { locale: "es" });
+});
@@ -0,0 +1,35 @@
+import { h } from "preact";
+import { renderToString } from "preact-render-to-string";
+
+/**
+ * Writes locale files to a new temporary directory.
+ * @param files - Contents by path relative to the directory (e.g., "en/common.json"). Strings are
+ *   written as is, other values as JSON.
+ * @returns Path of the directory; remove it when the test is done
+ */
+export async function createLocales(files: Record<string, unknown>): Promise<string> {
+  const localesDir = await Deno.makeTempDir();
+  for (const [path, content] of Object.entries(files)) {
+    const fullPath = `${localesDir}/${path}`;
+    await Deno.mkdir(fullPath.substring(0, fullPath.lastIndexOf("/")), { recursive: true });
+    await Deno.writeTextFile(
+      fullPath,
+      typeof content === "string" ? content : JSON.stringify(content),
+    );
+  }
+  return localesDir;
+}
+
+/**
+ * Calls hooks inside a component rendered on the server, as islands are.
+ * @param hook - Function calling the hooks
+ * @returns What the function returned
+ */
+export function renderHook<T>(hook: () => T): T {
+  let result: T | undefined;
+  renderToString(h(() => {
+    result = hook();
+    return null;
+  }, null));
+  return result as T;
+}
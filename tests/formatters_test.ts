@@ -0,0 +1,62 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { createFormatter } from "../src/formatters.ts";
+
+const date = new Date(Date.UTC(2026, 0, 28, 15, 45));
+
+Deno.test("createFormatter - formats numbers, currencies and lists", () => {
+  const fmt = createFormatter("en");
+
+  assertEquals(fmt.number(1234.5), "1,234.5");
+  assertEquals(fmt.number(0.25, "percent"), "25%");
+  assertEquals(fmt.number(1234.5, { maximumFractionDigits: 0 }), "1,235");
+  assertEquals(fmt.currency(9.99, "EUR"), "€9.99");
+  assertEquals(fmt.list(["Ana", "Bo", "Cy"]), "Ana, Bo, and Cy");
+  assertEquals(fmt.list(["Ana", "Bo"], "disjunction"), "Ana or Bo");
+});
+
+Deno.test("createFormatter - formats dates, times and relative times", () => {
+  const fmt = createFormatter("en");
+
+  assertEquals(fmt.date(date, { dateStyle: "long", timeZone: "UTC" }), "January 28, 2026");
+  assertEquals(fmt.time(date.getTime(), { timeStyle: "short", timeZone: "UTC" }), "3:45 PM");
+  assertEquals(fmt.relativeTime(-1, "day", { numeric: "auto" }), "yesterday");
+});
+
+Deno.test("createFormatter - uses named presets", () => {
+  const presets = {
+    number: { currency: { style: "currency", currency: "EUR" } as Intl.NumberFormatOptions },
+    date: { day: { day: "numeric", month: "long", timeZone: "UTC" } as Intl.DateTimeFormatOptions },
+  };
+  const fmt = createFormatter("de", presets);
+
+  assertEquals(fmt.number(9.99, "currency"), "9,99\u00a0€");
+  assertEquals(fmt.date(date, "day"), "28. Januar");
+});
+
+Deno.test("createFormatter - caches formatters per locale and presets", () => {
+  const presets = {};
+
+  assertEquals(createFormatter("en", presets) === createFormatter("en", presets), true);
+  assertEquals(createFormatter("en", presets) === createFormatter("es", presets), false);
+});
+
+Deno.test("createFormatter - warns once per unknown preset", () => {
+  const originalWarn = console.warn;
+  const warnings: string[] = [];
+  console.warn = (message: string) => warnings.push(message);
+
+  try {
+    const fmt = createFormatter("en", {});
+    assertEquals(fmt.number(1234.5, "unknownPreset"), "1,234.5");
+    fmt.number(1, "unknownPreset");
+    createFormatter("es", {}).number(1, "unknownPreset");
+    fmt.date(date, "unknownPreset");
+
+    assertEquals(warnings, [
+      '⚠️  Unknown number format "unknownPreset", using the default format',
+      '⚠️  Unknown date format "unknownPreset", using the default format',
+    ]);
+  } finally {
+    console.warn = originalWarn;
+  }
+});
@@ -0,0 +1,71 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import {
+  createHotReloadChannel,
+  getLocaleChange,
+  type LocaleChange,
+  watchLocales,
+} from "../src/hot-reload.ts";
+
+Deno.test("getLocaleChange - maps file paths to locale and namespace", () => {
+  assertEquals(getLocaleChange("/app/locales", "/app/locales/en/common.json"), {
+    locale: "en",
+    namespace: "common",
+  });
+  assertEquals(
+    getLocaleChange("/app/locales", "/app/locales/es/features/user-settings.json"),
+    { locale: "es", namespace: "features.userSettings" },
+  );
+});
+
+Deno.test("getLocaleChange - directory changes reload the whole locale", () => {
+  assertEquals(getLocaleChange("/app/locales", "/app/locales/en/features"), { locale: "en" });
+});
+
+Deno.test("getLocaleChange - ignores paths outside locale folders", () => {
+  assertEquals(getLocaleChange("/app/locales", "/app/locales"), null);
+  assertEquals(getLocaleChange("/app/locales", "/app/locales/en"), null);
+  assertEquals(getLocaleChange("/app/locales", "/app/other/en/common.json"), null);
+});
+
+Deno.test("watchLocales - reports changed namespaces once", async () => {
+  const localesDir = await Deno.makeTempDir();
+  await Deno.mkdir(`${localesDir}/en/common`, { recursive: true });
+  await Deno.writeTextFile(`${localesDir}/en/common/actions.json`, "{}");
+
+  const changes: LocaleChange[] = [];
+  const watcher = watchLocales(localesDir, (change) => changes.push(change), 20);
+
+  try {
+    await Deno.writeTextFile(`${localesDir}/en/common/actions.json`, '{"save":"Save"}');
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    assertEquals(changes, [{ locale: "en", namespace: "common.actions" }]);
+  } finally {
+    watcher.close();
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("createHotReloadChannel - sends changes to connected pages", async () => {
+  const channel = createHotReloadChannel();
+  const response = channel.connect();
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+
+  assertEquals(response.headers.get("content-type"), "text/event-stream");
+  assertEquals((await reader.read()).value, ": connected\n\n");
+
+  channel.notify({ locale: "en", namespace: "common" });
+  assertEquals((await reader.read()).value, 'data: {"locale":"en","namespace":"common"}\n\n');
+
+  await reader.cancel();
+});
+
+Deno.test("createHotReloadChannel - close ends open connections", async () => {
+  const channel = createHotReloadChannel();
+  const reader = channel.connect().body!.getReader();
+  await reader.read();
+
+  channel.close();
+
+  assertEquals((await reader.read()).done, true);
+});
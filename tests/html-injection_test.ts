@@ -0,0 +1,109 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import {
+  createInjectionStream,
+  getNonceAttribute,
+  injectIntoResponse,
+} from "../src/html-injection.ts";
+
+const SCRIPT = "<script>window.__I18N__={}</script>";
+
+// Streams chunks through the injection stream and returns the resulting text
+async function inject(chunks: string[]): Promise<string> {
+  const encoder = new TextEncoder();
+  const body = ReadableStream.from(chunks.map((chunk) => encoder.encode(chunk)));
+  return await new Response(body.pipeThrough(createInjectionStream(SCRIPT))).text();
+}
+
+Deno.test("createInjectionStream - injects before </head> split across chunks", async () => {
+  assertEquals(
+    await inject(["<html><head><title>Hi</title></he", "ad><body>Hello</body></html>"]),
+    `<html><head><title>Hi</title>${SCRIPT}</head><body>Hello</body></html>`,
+  );
+});
+
+Deno.test("createInjectionStream - injects after <body> without </head>", async () => {
+  assertEquals(
+    await inject(['<bodyguard></bodyguard><body class="x', '">Hi</body>']),
+    `<bodyguard></bodyguard><body class="x">${SCRIPT}Hi</body>`,
+  );
+});
+
+Deno.test("createInjectionStream - only rewrites the first tag", async () => {
+  assertEquals(
+    await inject(["<head></head>", "<body><code></head></code></body>"]),
+    `<head>${SCRIPT}</head><body><code></head></code></body>`,
+  );
+});
+
+Deno.test("createInjectionStream - prepends without head or body", async () => {
+  assertEquals(await inject(["<div>", "partial</div>"]), `${SCRIPT}<div>partial</div>`);
+});
+
+Deno.test("createInjectionStream - finds tags in single-byte chunks", async () => {
+  assertEquals(
+    await inject([..."<head><title>Hi</title></head><body>Hello</body>"]),
+    `<head><title>Hi</title>${SCRIPT}</head><body>Hello</body>`,
+  );
+  assertEquals(
+    await inject([...'<bodyguard></bodyguard><body class="x">Hi</body>']),
+    `<bodyguard></bodyguard><body class="x">${SCRIPT}Hi</body>`,
+  );
+});
+
+Deno.test("createInjectionStream - stops holding back a long body without tags", async () => {
+  const encoder = new TextEncoder();
+  const chunk = encoder.encode("<p>".padEnd(16 * 1024, "x"));
+  let enqueued = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      // An endless body: the scripts must go out without waiting for its end
+      enqueued++;
+      controller.enqueue(chunk);
+    },
+  });
+
+  const reader = body.pipeThrough(createInjectionStream(SCRIPT)).getReader();
+  const { value } = await reader.read();
+  await reader.cancel();
+
+  assertEquals(new TextDecoder().decode(value), SCRIPT);
+  assertEquals(enqueued <= 8, true);
+});
+
+Deno.test("createInjectionStream - keeps multi-byte characters split across chunks", async () => {
+  const bytes = new TextEncoder().encode("<head><title>€</title></head>");
+  const body = ReadableStream.from([bytes.subarray(0, 15), bytes.subarray(15)]);
+  assertEquals(
+    await new Response(body.pipeThrough(createInjectionStream(SCRIPT))).text(),
+    `<head><title>€</title>${SCRIPT}</head>`,
+  );
+});
+
+Deno.test("injectIntoResponse - drops Content-Length and keeps other headers", async () => {
+  const html = "<head></head><body></body>";
+  const response = injectIntoResponse(
+    new Response(html, {
+      status: 201,
+      headers: { "content-type": "text/html", "content-length": String(html.length) },
+    }),
+    SCRIPT,
+  );
+
+  assertEquals(response.status, 201);
+  assertEquals(response.headers.get("content-length"), null);
+  assertEquals(response.headers.get("content-type"), "text/html");
+  assertEquals(await response.text(), `<head>${SCRIPT}</head><body></body>`);
+});
+
+Deno.test("injectIntoResponse - leaves encoded bodies untouched", () => {
+  const original = new Response("compressed", {
+    headers: { "content-type": "text/html", "content-encoding": "gzip" },
+  });
+  assertEquals(injectIntoResponse(original, SCRIPT), original);
+});
+
+Deno.test("getNonceAttribute - escapes the nonce and is empty without one", () => {
+  assertEquals(getNonceAttribute("r4nd0m+/="), ' nonce="r4nd0m+/="');
+  assertEquals(getNonceAttribute('a"><script>'), ' nonce="a&quot;>&lt;script>"');
+  assertEquals(getNonceAttribute(undefined), "");
+});
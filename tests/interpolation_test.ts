@@ -0,0 +1,42 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { interpolate } from "../src/interpolation.ts";
+
+Deno.test("interpolate - replaces single and double brace placeholders", () => {
+  const result = interpolate("Hello {name}, you have {{count}} messages", {
+    name: "Ana",
+    count: 3,
+  });
+
+  assertEquals(result.text, "Hello Ana, you have 3 messages");
+  assertEquals(result.missing, []);
+  assertEquals([...result.used], ["name", "count"]);
+});
+
+Deno.test("interpolate - allows whitespace inside braces", () => {
+  assertEquals(interpolate("{ name } and {{ name }}", { name: "Ana" }).text, "Ana and Ana");
+});
+
+Deno.test("interpolate - leaves unfilled placeholders and reports them", () => {
+  const result = interpolate("Hello {name}", {});
+
+  assertEquals(result.text, "Hello {name}");
+  assertEquals(result.missing, ["name"]);
+});
+
+Deno.test("interpolate - ignores inherited properties of params", () => {
+  const result = interpolate("{constructor} and {toString}", {});
+
+  assertEquals(result.text, "{constructor} and {toString}");
+  assertEquals(result.missing, ["constructor", "toString"]);
+});
+
+Deno.test("interpolate - escaped braces are literal", () => {
+  const result = interpolate("Use \\{name} for {name}", { name: "Ana" });
+
+  assertEquals(result.text, "Use {name} for Ana");
+  assertEquals(result.missing, []);
+});
+
+Deno.test("interpolate - text without placeholders is returned as is", () => {
+  assertEquals(interpolate("Plain text").text, "Plain text");
+});
@@ -0,0 +1,114 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { findKeyUsage, scanSource } from "../src/key-scanner.ts";
+
+Deno.test("scanSource - finds t, state.t and useTranslation calls", () => {
+  const source = `export default function Page(ctx) {
+  const title = ctx.state.t("common.title");
+  const translate = useTranslation<TranslationKey>();
+  return <h1>{t('common.subtitle')} {translate(\`common.footer\`, { year: 2026 })}</h1>;
+}`;
+
+  const { keys, dynamicKeys } = scanSource(source, "routes/index.tsx");
+
+  assertEquals(keys, [
+    { key: "common.title", file: "routes/index.tsx", line: 2, column: 27 },
+    { key: "common.subtitle", file: "routes/index.tsx", line: 4, column: 15 },
+    { key: "common.footer", file: "routes/index.tsx", line: 4, column: 38 },
+  ]);
+  assertEquals(dynamicKeys, []);
+});
+
+Deno.test("scanSource - follows namespaced translator prefixes", () => {
+  const source = `
+const tCommon = createNamespacedTranslator(ctx.state.t, "common");
+const tActions = createNamespacedTranslator(tCommon, "actions");
+tActions("save");
+tCommon("title");`;
+
+  const { keys } = scanSource(source, "islands/Toolbar.tsx");
+
+  assertEquals(keys.map(({ key }) => key), ["common.actions.save", "common.title"]);
+});
+
+Deno.test("scanSource - finds list, raw and rich accessor calls", () => {
+  const source = `
+const tCommon = createNamespacedTranslator(state.t, "common");
+state.t.list("onboarding.steps");
+tCommon.raw("actions");
+tCommon.rich("legal.accept", components);`;
+
+  const { keys } = scanSource(source, "routes/index.tsx");
+
+  assertEquals(keys.map(({ key, subtree }) => ({ key, subtree })), [
+    { key: "onboarding.steps", subtree: undefined },
+    { key: "common.actions", subtree: true },
+    { key: "common.legal.accept", subtree: undefined },
+  ]);
+});
+
+Deno.test("scanSource - flags dynamic keys", () => {
+  const source = `
+const tStatus = createNamespacedTranslator(t, "status");
+t(key);
+tStatus(\`labels.\${status}\`);
+t("prefix." + name);`;
+
+  const { keys, dynamicKeys } = scanSource(source, "components/Status.tsx");
+
+  assertEquals(keys, []);
+  assertEquals(
+    dynamicKeys.map(({ expression, prefix }) => ({ expression, prefix })),
+    [
+      { expression: "key", prefix: "" },
+      { expression: "`labels.${status}`", prefix: "status.labels." },
+      { expression: '"prefix."', prefix: "" },
+    ],
+  );
+});
+
+Deno.test("scanSource - ignores comments", () => {
+  const source = `// t("common.old")
+/* t("common.older") */
+t("common.current"); // "t('not.a.call')"`;
+
+  const { keys } = scanSource(source, "routes/index.tsx");
+
+  assertEquals(keys.map(({ key }) => key), ["common.current"]);
+});
+
+Deno.test("findKeyUsage - reports unused and undeclared keys", async () => {
+  const rootDir = await Deno.makeTempDir();
+  const files: Record<string, string> = {
+    "locales/en/common.json": JSON.stringify({
+      title: "Title",
+      unused: "Unused",
+      menu: { open: "Open", close: "Close" },
+      status: { active: "Active", inactive: "Inactive" },
+    }),
+    "routes/index.tsx": `ctx.state.t("common.title"); t("common.missing"); t.raw("common.menu");`,
+    "islands/Status.tsx": "const t = useTranslation(); t(`common.status.${status}`);",
+  };
+  for (const [path, content] of Object.entries(files)) {
+    const fullPath = `${rootDir}/${path}`;
+    await Deno.mkdir(fullPath.substring(0, fullPath.lastIndexOf("/")), { recursive: true });
+    await Deno.writeTextFile(fullPath, content);
+  }
+
+  try {
+    const report = await findKeyUsage({
+      rootDir,
+      localesDir: `${rootDir}/locales`,
+      defaultLanguage: "en",
+    });
+
+    assertEquals(report.keyCount, 6);
+    assertEquals(report.used, ["common.menu.close", "common.menu.open", "common.title"]);
+    assertEquals(report.unused, ["common.unused"]);
+    assertEquals(report.undeclared.map(({ key, file }) => ({ key, file })), [
+      { key: "common.missing", file: "routes/index.tsx" },
+    ]);
+    assertEquals(report.dynamic.map(({ prefix }) => prefix), ["common.status."]);
+  } finally {
+    await Deno.remove(rootDir, { recursive: true });
+  }
+});
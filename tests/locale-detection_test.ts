@@ -0,0 +1,125 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import {
+  type DetectionConfig,
+  detectLocale,
+  formatLocaleCookie,
+  getCookie,
+  getPersistCookie,
+} from "../src/locale-detection.ts";
+
+const languages = ["en", "es", "pt-BR"];
+
+function request(path: string, headers: Record<string, string> = {}) {
+  const req = new Request(`https://example.com${path}`, { headers });
+  return { req, url: new URL(req.url) };
+}
+
+Deno.test("detectLocale - default order uses path then header", () => {
+  const fromPath = request("/es/dashboard", { "Accept-Language": "pt-BR" });
+  assertEquals(detectLocale(fromPath.req, fromPath.url, languages), {
+    locale: "es",
+    source: "path",
+  });
+
+  const fromHeader = request("/dashboard", { "Accept-Language": "pt-br,en;q=0.5" });
+  assertEquals(detectLocale(fromHeader.req, fromHeader.url, languages), {
+    locale: "pt-BR",
+    source: "header",
+  });
+});
+
+Deno.test("detectLocale - returns null when no strategy matches", () => {
+  const { req, url } = request("/dashboard", { "Accept-Language": "fr" });
+  assertEquals(detectLocale(req, url, languages), null);
+});
+
+Deno.test("detectLocale - query and cookie strategies", () => {
+  const config: DetectionConfig = { order: ["query", "cookie", "header"], queryParam: "lang" };
+
+  const fromQuery = request("/help?lang=ES", { cookie: "locale=en" });
+  assertEquals(detectLocale(fromQuery.req, fromQuery.url, languages, config), {
+    locale: "es",
+    source: "query",
+  });
+
+  const fromCookie = request("/help?lang=fr", { cookie: "theme=dark; locale=pt-BR" });
+  assertEquals(detectLocale(fromCookie.req, fromCookie.url, languages, config), {
+    locale: "pt-BR",
+    source: "cookie",
+  });
+});
+
+Deno.test("detectLocale - host strategy uses map or subdomain", () => {
+  const config = { order: ["host" as const], hosts: { "example.es": "es" } };
+
+  const mapped = new Request("https://example.es/");
+  assertEquals(detectLocale(mapped, new URL(mapped.url), languages, config), {
+    locale: "es",
+    source: "host",
+  });
+
+  const subdomain = new Request("https://pt-br.example.com/");
+  assertEquals(detectLocale(subdomain, new URL(subdomain.url), languages, config), {
+    locale: "pt-BR",
+    source: "host",
+  });
+});
+
+Deno.test("detectLocale - custom detectors", () => {
+  const { req, url } = request("/", { "x-user-locale": "es" });
+
+  assertEquals(
+    detectLocale(req, url, languages, { order: [(req) => req.headers.get("x-user-locale")] }),
+    { locale: "es", source: "custom" },
+  );
+  assertEquals(
+    detectLocale(req, url, languages, {
+      order: [{ name: "profile", detect: () => "en" }],
+    }),
+    { locale: "en", source: "profile" },
+  );
+});
+
+Deno.test("getCookie - reads and decodes cookies", () => {
+  const { req } = request("/", { cookie: "a=1; locale=pt-BR; b=%20x" });
+
+  assertEquals(getCookie(req, "locale"), "pt-BR");
+  assertEquals(getCookie(req, "b"), " x");
+  assertEquals(getCookie(req, "missing"), null);
+});
+
+Deno.test("getPersistCookie - persists path and query locales", () => {
+  const config = { order: ["path" as const, "cookie" as const] };
+  const { req } = request("/es");
+
+  assertEquals(
+    getPersistCookie(req, { locale: "es", source: "path" }, config),
+    "locale=es; Max-Age=31536000; Path=/; SameSite=Lax",
+  );
+  assertEquals(getPersistCookie(req, { locale: "es", source: "header" }, config), null);
+});
+
+Deno.test("getPersistCookie - skips unchanged cookie and disabled persist", () => {
+  const { req } = request("/es", { cookie: "locale=es" });
+
+  assertEquals(
+    getPersistCookie(req, { locale: "es", source: "path" }, { order: ["path", "cookie"] }),
+    null,
+  );
+  assertEquals(getPersistCookie(req, { locale: "en", source: "path" }), null);
+  assertEquals(
+    getPersistCookie(req, { locale: "en", source: "query" }, {
+      persist: true,
+      cookie: { name: "locale", secure: true },
+    }),
+    "locale=en; Max-Age=31536000; Path=/; SameSite=Lax; Secure",
+  );
+});
+
+Deno.test("formatLocaleCookie - serializes the cookie settings", () => {
+  assertEquals(formatLocaleCookie("es"), "locale=es; Max-Age=31536000; Path=/; SameSite=Lax");
+  assertEquals(
+    formatLocaleCookie("pt-BR", { name: "lang", maxAge: 60, sameSite: "Strict", secure: true }),
+    "lang=pt-BR; Max-Age=60; Path=/; SameSite=Strict; Secure",
+  );
+});
@@ -0,0 +1,71 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import {
+  findSupportedLocale,
+  getFallbackChain,
+  lookupLocale,
+  parseAcceptLanguage,
+} from "../src/locale-negotiation.ts";
+
+Deno.test("parseAcceptLanguage - sorts ranges by quality", () => {
+  assertEquals(parseAcceptLanguage("en;q=0.5, pt-BR, pt;q=0.9, fr;q=0"), [
+    { range: "pt-BR", q: 1 },
+    { range: "pt", q: 0.9 },
+    { range: "en", q: 0.5 },
+    { range: "fr", q: 0 },
+  ]);
+});
+
+Deno.test("findSupportedLocale - matches tags ignoring case", () => {
+  assertEquals(findSupportedLocale("pt-br", ["en", "pt-BR"]), "pt-BR");
+  assertEquals(findSupportedLocale("pt", ["en", "pt-BR"]), null);
+  assertEquals(findSupportedLocale(undefined, ["en"]), null);
+});
+
+Deno.test("lookupLocale - prefers exact regional match", () => {
+  const supported = ["en", "pt", "pt-BR", "pt-PT"];
+
+  assertEquals(lookupLocale("pt-BR,pt;q=0.9", supported, "en"), "pt-BR");
+  assertEquals(lookupLocale("pt-PT", supported, "en"), "pt-PT");
+});
+
+Deno.test("lookupLocale - truncates ranges to parent tags", () => {
+  assertEquals(lookupLocale("es-MX,en;q=0.5", ["en", "es"], "en"), "es");
+  assertEquals(lookupLocale("zh-Hant-TW", ["en", "zh-Hant"], "en"), "zh-Hant");
+});
+
+Deno.test("lookupLocale - q=0 excludes locales", () => {
+  assertEquals(lookupLocale("es;q=0, en-US;q=0.5", ["es", "en"], "es"), "en");
+  assertEquals(lookupLocale("es-MX, es;q=0", ["en", "es"], "en"), "en");
+});
+
+Deno.test("lookupLocale - wildcard picks first locale not excluded", () => {
+  assertEquals(lookupLocale("fr, *;q=0.1", ["es", "en"], "en"), "es");
+  assertEquals(lookupLocale("*, es;q=0", ["es", "en"], "es"), "en");
+});
+
+Deno.test("lookupLocale - returns default when nothing matches", () => {
+  assertEquals(lookupLocale("fr-CA, de", ["en", "es"], "en"), "en");
+  assertEquals(lookupLocale("", ["en", "es"], "en"), "en");
+});
+
+Deno.test("getFallbackChain - derives parent tags from supported locales", () => {
+  assertEquals(getFallbackChain("pt-BR", ["en", "pt", "pt-BR"], "en"), ["pt", "en"]);
+  assertEquals(getFallbackChain("es-MX", ["en", "es-MX"], "en"), ["en"]);
+  assertEquals(getFallbackChain("en", ["en", "es"], "en"), []);
+});
+
+Deno.test("getFallbackChain - uses configured chains", () => {
+  assertEquals(
+    getFallbackChain("es-MX", ["en", "es", "es-419", "es-MX"], "en", {
+      "es-MX": ["es-419", "es"],
+    }),
+    ["es-419", "es", "en"],
+  );
+});
+
+Deno.test("getFallbackChain - skips unsupported locales of configured chains", () => {
+  assertEquals(
+    getFallbackChain("es-MX", ["en", "ES", "es-MX"], "en", { "es-MX": ["es-419", "es"] }),
+    ["ES", "en"],
+  );
+});
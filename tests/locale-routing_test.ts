@@ -0,0 +1,137 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import {
+  addLocalePrefix,
+  resolveLocaleRoute,
+  type RoutingConfig,
+  switchLocalePath,
+} from "../src/locale-routing.ts";
+
+const languages = ["en", "es", "pt-BR"];
+
+const resolve = (path: string, detected: string, config: RoutingConfig) =>
+  resolveLocaleRoute(new URL(`https://example.com${path}`), detected, languages, "en", config);
+
+Deno.test("addLocalePrefix - prefixes root and nested paths", () => {
+  assertEquals(addLocalePrefix("/", "es"), "/es");
+  assertEquals(addLocalePrefix("/dashboard/", "es"), "/es/dashboard/");
+});
+
+Deno.test("resolveLocaleRoute - always prefix redirects with query string", () => {
+  assertEquals(resolve("/dashboard?tab=2", "es", { prefix: "always" }), {
+    type: "redirect",
+    location: "/es/dashboard?tab=2",
+  });
+  assertEquals(resolve("/", "en", { prefix: "always" }), { type: "redirect", location: "/en" });
+  assertEquals(resolve("/es/dashboard", "en", { prefix: "always" }), {
+    type: "render",
+    locale: "es",
+  });
+});
+
+Deno.test("resolveLocaleRoute - canonicalizes locale casing", () => {
+  assertEquals(resolve("/pt-br/dashboard", "pt-BR", { prefix: "always" }), {
+    type: "redirect",
+    location: "/pt-BR/dashboard",
+  });
+});
+
+Deno.test("resolveLocaleRoute - except-default prefix", () => {
+  const config: RoutingConfig = { prefix: "except-default" };
+
+  assertEquals(resolve("/en/dashboard?x=1", "en", config), {
+    type: "redirect",
+    location: "/dashboard?x=1",
+  });
+  assertEquals(resolve("/en", "en", config), { type: "redirect", location: "/" });
+  assertEquals(resolve("/es/dashboard", "en", config), { type: "render", locale: "es" });
+  assertEquals(resolve("/dashboard", "es", config), { type: "render", locale: "en" });
+});
+
+Deno.test("resolveLocaleRoute - never prefix", () => {
+  assertEquals(resolve("/es/dashboard", "es", { prefix: "never" }), {
+    type: "redirect",
+    location: "/dashboard",
+  });
+  assertEquals(resolve("/dashboard", "es", { prefix: "never" }), { type: "render", locale: null });
+});
+
+Deno.test("resolveLocaleRoute - unknown locale policies", () => {
+  assertEquals(resolve("/fr/dashboard", "es", { prefix: "always", unknownLocale: "not-found" }), {
+    type: "not-found",
+  });
+  assertEquals(
+    resolve("/fr/dashboard?a=b", "es", { prefix: "always", unknownLocale: "redirect" }),
+    {
+      type: "redirect",
+      location: "/es/dashboard?a=b",
+    },
+  );
+  assertEquals(resolve("/fr-CA/dashboard", "es", { prefix: "never", unknownLocale: "redirect" }), {
+    type: "redirect",
+    location: "/dashboard",
+  });
+  assertEquals(resolve("/fr/dashboard", "es", { prefix: "never" }), {
+    type: "render",
+    locale: null,
+  });
+});
+
+Deno.test("resolveLocaleRoute - segments that don't look like locales are normal paths", () => {
+  const config: RoutingConfig = { prefix: "never", unknownLocale: "not-found" };
+
+  assertEquals(resolve("/dashboard", "es", config), { type: "render", locale: null });
+  // Two letters, but not a known language
+  assertEquals(resolve("/me", "es", config), { type: "render", locale: null });
+  assertEquals(resolve("/go/home", "es", config), { type: "render", locale: null });
+  assertEquals(resolve("/me", "es", { ...config, localePattern: /^[a-z]{2}$/ }), {
+    type: "not-found",
+  });
+});
+
+Deno.test("resolveLocaleRoute - ignored paths are never redirected", () => {
+  const config: RoutingConfig = { prefix: "always", ignorePaths: ["/api"] };
+
+  assertEquals(resolve("/api/users", "es", config), { type: "render", locale: null });
+  assertEquals(resolve("/_fresh/js/main.js", "es", config), { type: "render", locale: null });
+  assertEquals(resolve("/favicon.ico", "es", config), { type: "render", locale: null });
+  assertEquals(resolve("/assets/styles.css", "es", config), { type: "render", locale: null });
+});
+
+Deno.test("resolveLocaleRoute - never redirects to another host", () => {
+  const redirectsTo = (path: string, detected: string, config: RoutingConfig) => {
+    const decision = resolve(path, detected, config);
+    return decision.type === "redirect" ? decision.location : null;
+  };
+
+  assertEquals(redirectsTo("/EN//evil.com/x", "en", { prefix: "always" }), "/en/evil.com/x");
+  assertEquals(redirectsTo("//evil.com/x", "es", { prefix: "always" }), "/es//evil.com/x");
+  assertEquals(redirectsTo("/en//evil.com/x", "en", { prefix: "except-default" }), "/evil.com/x");
+  assertEquals(redirectsTo("/es///evil.com/x", "es", { prefix: "never" }), "/evil.com/x");
+  assertEquals(
+    redirectsTo("/fr//evil.com/x", "en", { prefix: "except-default", unknownLocale: "redirect" }),
+    "/evil.com/x",
+  );
+});
+
+Deno.test("switchLocalePath - follows the routing prefix policy", () => {
+  assertEquals(
+    switchLocalePath("/es/dashboard", "pt-BR", languages, "en", "always"),
+    "/pt-BR/dashboard",
+  );
+  assertEquals(
+    switchLocalePath("/es/dashboard", "en", languages, "en", "except-default"),
+    "/dashboard",
+  );
+  assertEquals(
+    switchLocalePath("/dashboard", "es", languages, "en", "except-default"),
+    "/es/dashboard",
+  );
+  assertEquals(switchLocalePath("/dashboard", "es", languages, "en", "never"), "/dashboard");
+  assertEquals(switchLocalePath("/es//evil.com", "en", languages, "en", "never"), "/evil.com");
+  assertEquals(switchLocalePath("//evil.com", "en", languages, "en"), "/evil.com");
+});
+
+Deno.test("switchLocalePath - keeps the URL style without routing", () => {
+  assertEquals(switchLocalePath("/es", "en", languages, "en"), "/en");
+  assertEquals(switchLocalePath("/dashboard", "es", languages, "en"), "/dashboard");
+});
@@ -0,0 +1,146 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.0";
+import {
+  compileMessage,
+  getCompiledMessage,
+  getMessageParams,
+  isIcuMessage,
+  MessageFormatError,
+  parseMessage,
+} from "../src/message-format.ts";
+import { translate } from "../src/translator.ts";
+
+const format = (message: string, params: Record<string, unknown>, locale = "en") =>
+  compileMessage(parseMessage(message), locale)(params).text;
+
+Deno.test("isIcuMessage - detects plural, select and selectordinal", () => {
+  assertEquals(isIcuMessage("{count, plural, other {#}}"), true);
+  assertEquals(isIcuMessage("{ gender , select, other {x}}"), true);
+  assertEquals(isIcuMessage("{n, selectordinal, other {#th}}"), true);
+  assertEquals(isIcuMessage("Hello {name}"), false);
+});
+
+Deno.test("compileMessage - english plural with exact match", () => {
+  const message = "{count, plural, =0 {No items} one {# item} other {# items}}";
+
+  assertEquals(format(message, { count: 0 }), "No items");
+  assertEquals(format(message, { count: 1 }), "1 item");
+  assertEquals(format(message, { count: 1200 }), "1,200 items");
+});
+
+Deno.test("compileMessage - polish plural categories", () => {
+  const message = "{count, plural, one {# plik} few {# pliki} many {# plików} other {# pliku}}";
+
+  assertEquals(format(message, { count: 1 }, "pl"), "1 plik");
+  assertEquals(format(message, { count: 3 }, "pl"), "3 pliki");
+  assertEquals(format(message, { count: 5 }, "pl"), "5 plików");
+});
+
+Deno.test("compileMessage - japanese only uses other", () => {
+  const message = "{count, plural, one {# 件 (one)} other {# 件}}";
+
+  assertEquals(format(message, { count: 1 }, "ja"), "1 件");
+});
+
+Deno.test("compileMessage - plural offset", () => {
+  const message =
+    "{count, plural, offset:1 =1 {Only {name}} one {{name} and # other} other {{name} and # others}}";
+
+  assertEquals(format(message, { count: 1, name: "Ana" }), "Only Ana");
+  assertEquals(format(message, { count: 2, name: "Ana" }), "Ana and 1 other");
+  assertEquals(format(message, { count: 4, name: "Ana" }), "Ana and 3 others");
+});
+
+Deno.test("compileMessage - select and nested plural", () => {
+  const message =
+    "{gender, select, female {She has {count, plural, one {# cat} other {# cats}}} other {They have {count, plural, one {# cat} other {# cats}}}}";
+
+  assertEquals(format(message, { gender: "female", count: 2 }), "She has 2 cats");
+  assertEquals(format(message, { gender: "unknown", count: 1 }), "They have 1 cat");
+});
+
+Deno.test("compileMessage - selectordinal", () => {
+  const message = "{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}";
+
+  assertEquals(format(message, { n: 1 }), "1st");
+  assertEquals(format(message, { n: 22 }), "22nd");
+  assertEquals(format(message, { n: 13 }), "13th");
+});
+
+Deno.test("compileMessage - apostrophe quoting", () => {
+  const message = "{count, plural, other {It''s '{literal}' and '#' is #}}";
+
+  assertEquals(format(message, { count: 2 }), "It's {literal} and # is 2");
+});
+
+Deno.test("compileMessage - reports missing and used params", () => {
+  const result = compileMessage(parseMessage("{count, plural, other {# {unit}}}"), "en")({
+    count: 2,
+  });
+
+  assertEquals(result.text, "2 {unit}");
+  assertEquals(result.missing, ["unit"]);
+  assertEquals([...result.used], ["count"]);
+
+  const inherited = compileMessage(parseMessage("{count, plural, other {{constructor}}}"), "en")({
+    count: 2,
+  });
+  assertEquals(inherited.text, "{constructor}");
+  assertEquals(inherited.missing, ["constructor"]);
+});
+
+Deno.test("parseMessage - syntax errors", () => {
+  assertThrows(() => parseMessage("{count, plural, one {# item}}"), MessageFormatError);
+  assertThrows(() => parseMessage("{count, plural, other {# items}"), MessageFormatError);
+  assertThrows(() => parseMessage("{count, plural, other # items}}"), MessageFormatError);
+});
+
+Deno.test("getCompiledMessage - caches per key and locale", () => {
+  const message = "{count, plural, other {#}}";
+  const first = getCompiledMessage("test.key", message, "en");
+
+  assertEquals(getCompiledMessage("test.key", message, "en"), first);
+  assertEquals(getCompiledMessage("test.key", message, "es") === first, false);
+  assertEquals(
+    getCompiledMessage("test.key", "{count, plural, other {# x}}", "en") === first,
+    false,
+  );
+});
+
+Deno.test("translate - formats ICU messages with the active locale", () => {
+  const t = translate({
+    "files.count": "{count, plural, one {# plik} few {# pliki} many {# plików} other {# pliku}}",
+  }, { locale: "pl" });
+
+  assertEquals(t("files.count", { count: 2 }), "2 pliki");
+});
+
+Deno.test("translate - invalid ICU message returns raw text in production", () => {
+  const t = translate({ "files.count": "{count, plural, one {# file}}" }, {
+    isProduction: () => true,
+  });
+
+  assertEquals(t("files.count", { count: 2 }), "{count, plural, one {# file}}");
+});
+
+Deno.test("translate - formats number and date arguments with presets", () => {
+  const t = translate({
+    "cart.total": "Total: {amount, number, currency}",
+    "cart.share": "{ratio, number, percent} off until {until, date, short}",
+  }, {
+    locale: "en",
+    formats: { number: { currency: { style: "currency", currency: "USD" } } },
+  });
+
+  assertEquals(t("cart.total", { amount: 12.5 }), "Total: $12.50");
+  assertEquals(
+    t("cart.share", { ratio: 0.2, until: new Date(2026, 0, 28) }),
+    "20% off until 1/28/26",
+  );
+});
+
+Deno.test("getMessageParams - types number and date arguments", () => {
+  assertEquals(
+    getMessageParams("{amount, number, currency} on {when, date}"),
+    new Map([["amount", "number"], ["when", "Date | number | string"]]),
+  );
+});
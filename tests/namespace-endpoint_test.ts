@@ -0,0 +1,28 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import {
+  getNamespaceUrl,
+  isNamespaceLoaded,
+  parseNamespacePath,
+} from "../src/namespace-endpoint.ts";
+
+Deno.test("parseNamespacePath - reads supported locales and namespaces", () => {
+  const languages = ["en", "pt-BR"];
+
+  assertEquals(parseNamespacePath("/_i18n/pt-br/features.reports.json", languages), {
+    locale: "pt-BR",
+    namespace: "features.reports",
+  });
+  assertEquals(parseNamespacePath("/_i18n/fr/common.json", languages), null);
+  assertEquals(parseNamespacePath("/_i18n/en/..%2Fsecret.json", languages), null);
+  assertEquals(parseNamespacePath("/_i18n/en/common", languages), null);
+  assertEquals(parseNamespacePath("/_i18n/%E0/common.json", languages), null);
+  assertEquals(parseNamespacePath("/_i18n/en/%E0.json", languages), null);
+  assertEquals(getNamespaceUrl("pt-BR", "features.reports"), "/_i18n/pt-BR/features.reports.json");
+});
+
+Deno.test("isNamespaceLoaded - matches namespaces and their parents", () => {
+  assertEquals(isNamespaceLoaded(["features"], "features.reports"), true);
+  assertEquals(isNamespaceLoaded(["features.reports"], "features"), false);
+  assertEquals(isNamespaceLoaded(["common"], "commonExtra"), false);
+  assertEquals(isNamespaceLoaded([], "anything"), true);
+});
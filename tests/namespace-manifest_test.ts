@@ -0,0 +1,80 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import {
+  buildNamespaceManifest,
+  getKeyNamespace,
+  routeFileToPattern,
+} from "../src/namespace-manifest.ts";
+
+Deno.test("routeFileToPattern - maps Fresh route files to URLPattern pathnames", () => {
+  assertEquals(routeFileToPattern("index.tsx"), "/");
+  assertEquals(routeFileToPattern("about.tsx"), "/about");
+  assertEquals(routeFileToPattern("blog/index.tsx"), "/blog");
+  assertEquals(routeFileToPattern("blog/[slug].tsx"), "/blog/:slug");
+  assertEquals(routeFileToPattern("docs/[...path].tsx"), "/docs/:path*");
+  assertEquals(routeFileToPattern("[[lang]]/about.tsx"), "{/:lang}?/about");
+  assertEquals(routeFileToPattern("(marketing)/pricing.tsx"), "/pricing");
+});
+
+Deno.test("getKeyNamespace - drops the last key segment", () => {
+  assertEquals(getKeyNamespace("features.reports.title"), "features.reports");
+  assertEquals(getKeyNamespace("features.reports", true), "features.reports");
+  assertEquals(getKeyNamespace("title"), "title");
+});
+
+Deno.test("buildNamespaceManifest - follows route imports into islands", async () => {
+  const rootDir = await Deno.makeTempDir();
+  const files: Record<string, string> = {
+    "routes/_app.tsx": `import Nav from "../islands/Nav.tsx";`,
+    "routes/_middleware.ts": `import "../islands/Nav.tsx";`,
+    "routes/index.tsx": `export default (ctx) => ctx.state.t("home.title");`,
+    "routes/projects/[id].tsx": [
+      `import type { Props } from "../../islands/Unused.tsx";`,
+      `import { Card } from "@/components/Card.tsx";`,
+      `import "./styles.css";`,
+    ].join("\n"),
+    "routes/projects/(_islands)/Chart.tsx": "const t = useTranslation(); t(`charts.${kind}`);",
+    "routes/settings/_layout.tsx": `import Tabs from "./(_islands)/Tabs.tsx";`,
+    "routes/settings/(_islands)/Tabs.tsx": "const t = useTranslation(); t(tab);",
+    "components/Card.tsx": [
+      `import Chart from "../routes/projects/(_islands)/Chart.tsx";`,
+      `import Editor from "../islands/Editor.tsx";`,
+    ].join("\n"),
+    "islands/Nav.tsx": `const t = useTranslation(); t("common.nav.home"); t("common.nav.about");`,
+    "islands/Editor.tsx": [
+      `import { Field } from "../components/Field.tsx";`,
+      `const t = useTranslation();`,
+      `const tForm = createNamespacedTranslator(t, "features.projects.form");`,
+      `tForm("save"); t.raw("features.projects.statuses");`,
+    ].join("\n"),
+    "components/Field.tsx": `const t = useTranslation(); t("common.validation.required");`,
+    "islands/Unused.tsx": `const t = useTranslation(); t("unused.title");`,
+  };
+  for (const [path, content] of Object.entries(files)) {
+    const fullPath = `${rootDir}/${path}`;
+    await Deno.mkdir(fullPath.substring(0, fullPath.lastIndexOf("/")), { recursive: true });
+    await Deno.writeTextFile(fullPath, content);
+  }
+
+  try {
+    const { manifest, unresolved } = await buildNamespaceManifest({ rootDir });
+
+    assertEquals(manifest, {
+      routes: {
+        "/": [],
+        "/*": ["common.nav"],
+        "/projects/:id": [
+          "charts",
+          "common.validation",
+          "features.projects.form",
+          "features.projects.statuses",
+        ],
+        "/settings{/*}?": [],
+      },
+    });
+    assertEquals(unresolved.map(({ expression, file }) => ({ expression, file })), [
+      { expression: "tab", file: "routes/settings/(_islands)/Tabs.tsx" },
+    ]);
+  } finally {
+    await Deno.remove(rootDir, { recursive: true });
+  }
+});
@@ -0,0 +1,338 @@
+import {
+  assertEquals,
+  assertRejects,
+  assertStringIncludes,
+  assertThrows,
+} from "jsr:@std/assert@^1.0.0";
+import { HttpError } from "fresh";
+import { i18n, type I18nMiddleware } from "../src/plugin.ts";
+import { TranslationFileError } from "../src/file-diagnostics.ts";
+import type { TranslationState } from "../src/types.ts";
+import { useTranslation } from "../src/client.ts";
+import { createLocales, renderHook } from "./fixtures.ts";
+
+// Runs a middleware on a request; `next` stands for the route handler
+function runMiddleware(
+  middleware: I18nMiddleware<TranslationState>,
+  url: string,
+  next: () => Response | Promise<Response> = () => html(""),
+  init?: RequestInit & { state?: Record<string, unknown> },
+): Promise<Response> {
+  const req = new Request(new URL(url, "http://localhost"), init);
+  return Promise.resolve(
+    middleware(
+      {
+        req,
+        url: new URL(req.url),
+        params: {},
+        state: init?.state ?? {},
+        next: () => Promise.resolve(next()),
+      } as Parameters<typeof middleware>[0],
+    ),
+  );
+}
+
+function html(body: string): Response {
+  return new Response(`<html><head></head><body>${body}</body></html>`, {
+    headers: { "content-type": "text/html; charset=utf-8" },
+  });
+}
+
+Deno.test("i18n - close stops watching locale files", async () => {
+  const localesDir = await createLocales({ "en/common.json": { title: "Title" } });
+  const middleware = i18n({
+    languages: ["en"],
+    defaultLanguage: "en",
+    localesDir,
+    hotReload: true,
+  });
+
+  try {
+    const loaded = await middleware.cache.get("en");
+    middleware.close();
+
+    await Deno.writeTextFile(`${localesDir}/en/common.json`, '{"title":"Changed"}');
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    assertEquals(await middleware.cache.get("en"), loaded);
+  } finally {
+    middleware[Symbol.dispose]();
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("i18n - strict production startup rejects ready without crashing", async () => {
+  const localesDir = await createLocales({ "en/common.json": '{"title": "Title",}' });
+  const originalError = console.error;
+  const logged: unknown[] = [];
+  console.error = (...args: unknown[]) => logged.push(args[0]);
+
+  try {
+    const lenient = i18n({ languages: ["en"], defaultLanguage: "en", localesDir });
+    assertEquals(await lenient.cache.get("en"), {
+      data: {},
+      fallbackKeys: new Map(),
+      origins: new Map(),
+    });
+
+    // Logged even if the app doesn't await it, so it never becomes an unhandled rejection
+    const strict = i18n({
+      languages: ["en"],
+      defaultLanguage: "en",
+      localesDir,
+      strict: true,
+      isProduction: () => true,
+    });
+
+    await assertRejects(() => strict.ready, TranslationFileError);
+    assertEquals(logged, ["❌ Failed to preload translations:"]);
+  } finally {
+    console.error = originalError;
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("i18n - islands rendered on the server get the data injected for the browser", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { title: "Title" },
+    "en/reports.json": { title: "Reports" },
+  });
+  const middleware = i18n({
+    languages: ["en"],
+    defaultLanguage: "en",
+    localesDir,
+    clientLoad: { always: [], routes: { "/reports": ["reports"] }, fallback: "none" },
+  });
+  const island = () =>
+    html(renderHook(() => {
+      const t = useTranslation();
+      return `${t("reports.title")} ${t("common.title")}`;
+    }));
+
+  try {
+    const reports = await (await runMiddleware(middleware, "/reports", island)).text();
+    assertStringIncludes(reports, "<body>Reports [common.title]</body>");
+    assertStringIncludes(reports, "window.__I18N__");
+
+    // Nothing injected: nothing to render with on the server either
+    const home = await (await runMiddleware(middleware, "/", island)).text();
+    assertStringIncludes(home, "<body>[reports.title] [common.title]</body>");
+    assertEquals(home.includes("__I18N__"), false);
+  } finally {
+    middleware.close();
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("i18n - bundles are only served for known namespaces", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { title: "Title" },
+    "en/reports.json": { title: "Reports" },
+  });
+  const middleware = i18n({
+    languages: ["en"],
+    defaultLanguage: "en",
+    localesDir,
+    clientLoad: { always: ["common", "empty"], routes: {}, bundle: true },
+  });
+  const request = (url: string) => runMiddleware(middleware, url, () => new Response("page"));
+
+  try {
+    assertEquals((await request("/_i18n/en/bundle.ab.js?ns=reports")).status, 200);
+    // Configured namespaces are known even without translations
+    assertEquals((await request("/_i18n/en/bundle.ab.js?ns=common,empty")).status, 200);
+
+    const rejected = [
+      "/_i18n/en/bundle.ab.js?ns=common,unknown",
+      "/_i18n/en/bundle.ab.js?ns=../common",
+      "/_i18n/%E0/bundle.ab.js",
+    ];
+    for (const url of rejected) {
+      const error = await assertRejects(() => request(url), HttpError);
+      assertEquals(error.status, 404);
+    }
+  } finally {
+    middleware.close();
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("i18n - injects client translations with the request's nonce", async () => {
+  const localesDir = await createLocales({ "en/common.json": { title: "Title" } });
+  const middleware = i18n({
+    languages: ["en"],
+    defaultLanguage: "en",
+    localesDir,
+    isProduction: () => true,
+    clientLoad: { always: ["common"], routes: {} },
+  });
+  const optionMiddleware = i18n({
+    languages: ["en"],
+    defaultLanguage: "en",
+    localesDir,
+    isProduction: () => true,
+    clientLoad: { always: ["common"], routes: {} },
+    nonce: (ctx) => ctx.req.headers.get("x-nonce") ?? undefined,
+  });
+
+  try {
+    const page = await runMiddleware(middleware, "/", undefined, { state: { nonce: "r4nd0m" } });
+    assertStringIncludes(
+      await page.text(),
+      '<script nonce="r4nd0m">window.__I18N__={"translations":{"common.title":"Title"}',
+    );
+
+    const fromOption = await runMiddleware(optionMiddleware, "/", undefined, {
+      headers: { "x-nonce": "fr0m-0pt10n" },
+      state: { nonce: "ignored" },
+    });
+    assertStringIncludes(await fromOption.text(), '<script nonce="fr0m-0pt10n">window.__I18N__=');
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("i18n - emits client translations as a JSON block", async () => {
+  const localesDir = await createLocales({ "en/common.json": { title: "</script>" } });
+  const middleware = i18n({
+    languages: ["en"],
+    defaultLanguage: "en",
+    localesDir,
+    isProduction: () => true,
+    clientLoad: { always: ["common"], routes: {}, inject: "json" },
+  });
+
+  try {
+    const text = await (await runMiddleware(middleware, "/")).text();
+    const block = /<script type="application\/json" id="__I18N_DATA__">(.*?)<\/script>/
+      .exec(text);
+
+    assertEquals(JSON.parse(block![1]).translations, { "common.title": "</script>" });
+    assertEquals(text.includes("window.__I18N__"), false);
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("i18n - rejects a JSON block with bundles", () => {
+  assertThrows(
+    () =>
+      i18n({
+        languages: ["en"],
+        defaultLanguage: "en",
+        localesDir: "./locales",
+        clientLoad: { always: [], routes: {}, inject: "json", bundle: true },
+      }),
+    TypeError,
+    'clientLoad.inject: "json" cannot be combined with clientLoad.bundle',
+  );
+});
+
+Deno.test("i18n - serves the bundle referenced by the page", async () => {
+  const localesDir = await createLocales({ "en/common.json": { title: "Title" } });
+  const middleware = i18n({
+    languages: ["en"],
+    defaultLanguage: "en",
+    localesDir,
+    isProduction: () => true,
+    clientLoad: { always: ["common"], routes: {}, bundle: true },
+  });
+
+  try {
+    const page = await (await runMiddleware(middleware, "/")).text();
+    const src = /<script src="([^"]+)"><\/script><\/head>/.exec(page)![1];
+    assertEquals(page.includes("window.__I18N__"), false);
+
+    const bundle = await runMiddleware(middleware, src);
+    const etag = bundle.headers.get("etag")!;
+    assertEquals(bundle.headers.get("cache-control"), "public, max-age=31536000, immutable");
+    assertStringIncludes(await bundle.text(), 'window.__I18N__={"translations":{"common.title"');
+
+    const cached = await runMiddleware(middleware, src, undefined, {
+      headers: { "if-none-match": etag },
+    });
+    assertEquals(cached.status, 304);
+
+    // A page rendered before the translations changed gets the current bundle, not cached
+    const stale = await runMiddleware(middleware, src.replace(/bundle\.\w+/, "bundle.0000"));
+    assertEquals(stale.headers.get("cache-control"), "no-cache");
+    assertEquals(stale.headers.get("etag"), etag);
+    await stale.body?.cancel();
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("i18n - serves namespaces from the endpoint", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { title: "Title" },
+    "en/features/reports.json": { title: "Reports" },
+  });
+  const middleware = i18n({
+    languages: ["en"],
+    defaultLanguage: "en",
+    localesDir,
+    isProduction: () => true,
+    clientLoad: { always: ["common"], routes: {}, endpoint: true },
+  });
+  const withoutEndpoint = i18n({
+    languages: ["en"],
+    defaultLanguage: "en",
+    localesDir,
+    isProduction: () => true,
+    clientLoad: { always: ["common"], routes: {} },
+  });
+
+  try {
+    // Opt-in: without it, the path is left to the app
+    const page = await runMiddleware(withoutEndpoint, "/_i18n/en/features.reports.json");
+    assertStringIncludes(await page.text(), "<body></body>");
+
+    const response = await runMiddleware(middleware, "/_i18n/en/features.reports.json");
+    assertEquals(response.headers.get("cache-control"), "no-cache");
+    assertEquals(await response.json(), { "features.reports.title": "Reports" });
+
+    for (const url of ["/_i18n/en/unknown.json", "/_i18n/fr/common.json", "/_i18n/%E0/a.json"]) {
+      const error = await assertRejects(() => runMiddleware(middleware, url), HttpError);
+      assertEquals(error.status, 404);
+    }
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("i18n - logs missing keys reported by islands in development", async () => {
+  const localesDir = await createLocales({ "en/common.json": { title: "Title" } });
+  const options = {
+    languages: ["en"],
+    defaultLanguage: "en",
+    localesDir,
+    clientLoad: { always: ["common"], routes: {} },
+  };
+  const development = i18n({ ...options, isProduction: () => false });
+  const production = i18n({ ...options, isProduction: () => true });
+  const report = (middleware: I18nMiddleware<TranslationState>, body: string) =>
+    runMiddleware(middleware, "/_i18n/missing", undefined, { method: "POST", body });
+  const originalWarn = console.warn;
+  const warnings: string[] = [];
+  console.warn = (message: string) => warnings.push(message);
+
+  try {
+    const body = JSON.stringify({ key: "common.subtitle", locale: "en", path: "/", patterns: [] });
+    assertEquals((await report(development, body)).status, 204);
+    assertEquals(warnings, [
+      '⚠️  Island on /: Missing translation key: "common.subtitle" [locale: en]',
+    ]);
+
+    const error = await assertRejects(() => report(development, "{}"), HttpError);
+    assertEquals(error.status, 400);
+
+    // Production leaves the path to the app
+    assertStringIncludes(await (await report(production, body)).text(), "<body></body>");
+    assertEquals(warnings.length, 1);
+  } finally {
+    console.warn = originalWarn;
+    development.close();
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
@@ -0,0 +1,60 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { h, type VNode } from "preact";
+import { escapeRichTextParams, parseRichText } from "../src/rich-text.ts";
+import { Trans } from "../src/trans.ts";
+import { translate } from "../src/translator.ts";
+
+Deno.test("parseRichText - parses nested and self-closing tags", () => {
+  assertEquals(parseRichText("Accept the <link>terms and <b>privacy</b></link>.<br/>Thanks"), [
+    "Accept the ",
+    { tag: "link", children: ["terms and ", { tag: "b", children: ["privacy"] }] },
+    ".",
+    { tag: "br", children: [] },
+    "Thanks",
+  ]);
+});
+
+Deno.test("parseRichText - keeps unmatched tags as text", () => {
+  assertEquals(parseRichText("a <b>bold"), ["a <b>bold"]);
+  assertEquals(parseRichText("a </b> <i>x</b></i>"), ["a </b> ", {
+    tag: "i",
+    children: ["x</b>"],
+  }]);
+  assertEquals(parseRichText("1 < 2 > 0"), ["1 < 2 > 0"]);
+});
+
+Deno.test("parseRichText - values never become tags", () => {
+  const params = escapeRichTextParams({ name: "<b>Ana</b>", defaultValue: "<b>{name}</b>" });
+
+  assertEquals(params?.defaultValue, "<b>{name}</b>");
+  assertEquals(parseRichText(`Hi <b>${params?.name}</b>`), [
+    "Hi ",
+    { tag: "b", children: ["<b>Ana</b>"] },
+  ]);
+});
+
+Deno.test("translate.rich - renders tags with components", () => {
+  const t = translate({
+    "legal.accept": "Hi {name}, accept the <link>terms</link> and <b>policy</b>",
+  });
+
+  assertEquals(
+    t.rich("legal.accept", { link: (chunks) => ({ a: chunks }) }, { name: "<i>Ana</i>" }),
+    ["Hi <i>Ana</i>, accept the ", { a: ["terms"] }, " and ", "policy"],
+  );
+});
+
+Deno.test("Trans - clones elements with the tag content", () => {
+  const t = translate({ "legal.accept": "Accept the <link>terms</link>" });
+  const vnode = Trans({
+    t,
+    i18nKey: "legal.accept",
+    components: { link: h("a", { href: "/terms" }) as VNode },
+  });
+  const [text, link] = vnode.props.children as [string, VNode<{ href: string; children: string }>];
+
+  assertEquals(text, "Accept the ");
+  assertEquals(link.type, "a");
+  assertEquals(link.props.href, "/terms");
+  assertEquals(link.props.children, "terms");
+});
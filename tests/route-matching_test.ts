@@ -1,26 +1,12 @@
-import { assertEquals } from "jsr:@std/assert";
-
-// Import the functions we need to test - they're not exported so we'll test via the module
-// For now, we'll create standalone versions for testing
-// In real implementation, consider exporting these from plugin.ts for testing
-
-function normalizeUrlPath(path: string): string {
-  if (path === "/" || !path.endsWith("/")) return path;
-  return path.slice(0, -1);
-}
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { compileRoutes, matchRoutes, normalizeUrlPath } from "../src/route-patterns.ts";
 
+// Whether a path matches a single clientLoad route pattern, as the middleware matches them
 function matchRoutePattern(urlPath: string, pattern: string): boolean {
-  if (urlPath === pattern) return true;
-
-  if (pattern.includes("*")) {
-    const prefix = pattern.substring(0, pattern.indexOf("*"));
-    if (!urlPath.startsWith(prefix)) return false;
-    return true;
-  }
-
-  return false;
+  return matchRoutes(urlPath, compileRoutes({ [pattern]: ["ns"] })).patterns.length > 0;
 }
 
+// extractNamespaces isn't exported from plugin.ts, so this is a standalone copy for testing
 function extractNamespaces(
   allTranslations: Record<string, unknown>,
   namespaces: string[],
@@ -0,0 +1,83 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.0";
+import { compileRoutes, matchRoutes } from "../src/route-patterns.ts";
+
+Deno.test("matchRoutes - keeps greedy prefix patterns working", () => {
+  const routes = compileRoutes({ "/indicators/*": ["features.indicators"], "/about": ["about"] });
+
+  assertEquals(matchRoutes("/indicators/123/edit", routes).namespaces, ["features.indicators"]);
+  assertEquals(matchRoutes("/indicators/", routes).namespaces, ["features.indicators"]);
+  assertEquals(matchRoutes("/matrix/indicators/1", routes).patterns, []);
+  assertEquals(matchRoutes("/about", routes).namespaces, ["about"]);
+  assertEquals(matchRoutes("/about/team", routes).patterns, []);
+});
+
+Deno.test("matchRoutes - supports mid-path wildcards, params and optional groups", () => {
+  const routes = compileRoutes({
+    "/projects/*/settings": ["settings"],
+    "/users/:id{/edit}?": ["users"],
+  });
+
+  assertEquals(matchRoutes("/projects/7/settings", routes).namespaces, ["settings"]);
+  assertEquals(matchRoutes("/projects/7/members", routes).patterns, []);
+  assertEquals(matchRoutes("/users/7", routes).namespaces, ["users"]);
+  assertEquals(matchRoutes("/users/7/edit", routes).namespaces, ["users"]);
+  assertEquals(matchRoutes("/users/7/delete", routes).patterns, []);
+});
+
+Deno.test("matchRoutes - exclusions remove their namespaces", () => {
+  const routes = compileRoutes({
+    "/admin/*": ["features.admin", "features.users"],
+    "!/admin/login": ["features.admin"],
+  });
+
+  assertEquals(matchRoutes("/admin/users", routes).namespaces, [
+    "features.admin",
+    "features.users",
+  ]);
+  assertEquals(matchRoutes("/admin/login", routes), {
+    namespaces: ["features.users"],
+    patterns: ["/admin/*"],
+  });
+  // An exclusion alone isn't a match
+  assertEquals(matchRoutes("/login", compileRoutes({ "!/login": ["x"] })).patterns, []);
+});
+
+Deno.test("matchRoutes - most-specific mode picks a single route", () => {
+  const routes = compileRoutes({
+    "/projects/*": ["projects"],
+    "/projects/:id/settings": ["settings"],
+    "/projects/new/settings": ["new"],
+  });
+
+  assertEquals(matchRoutes("/projects/7/settings", routes).namespaces, ["projects", "settings"]);
+  assertEquals(matchRoutes("/projects/7/settings", routes, "most-specific"), {
+    namespaces: ["settings"],
+    patterns: ["/projects/*", "/projects/:id/settings"],
+  });
+  assertEquals(matchRoutes("/projects/new/settings", routes, "most-specific").namespaces, ["new"]);
+  assertEquals(matchRoutes("/projects/7", routes, "most-specific").namespaces, ["projects"]);
+});
+
+Deno.test("compileRoutes - normalizes trailing slashes and rejects invalid patterns", () => {
+  const routes = compileRoutes({ "/settings/": ["settings"] }, true);
+  assertEquals(matchRoutes("/settings", routes).namespaces, ["settings"]);
+
+  assertThrows(() => compileRoutes({ "/users/:": ["users"] }), TypeError, "/users/:");
+});
+
+Deno.test("matchRoutes - merges generated routes in most-specific mode", () => {
+  const routes = [
+    ...compileRoutes({ "/*": ["common.nav"], "/projects/:id": ["projects"] }, false, true),
+    ...compileRoutes({
+      "/projects/*": ["extra"],
+      "/projects/:id": ["detail"],
+      "!/projects/new": ["projects"],
+    }),
+  ];
+
+  assertEquals(
+    matchRoutes("/projects/7", routes, "most-specific").namespaces,
+    ["common.nav", "projects", "detail"],
+  );
+  assertEquals(matchRoutes("/projects/new", routes).namespaces, ["common.nav", "extra", "detail"]);
+});
@@ -0,0 +1,171 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { createTranslationCache } from "../src/translation-cache.ts";
+import { createLocales } from "./fixtures.ts";
+
+Deno.test("createTranslationCache - loads and flattens nested files", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { title: "Title" },
+    "en/common/actions.json": { save: "Save" },
+    "en/features/user-settings.json": { form: { name: "Name" } },
+  });
+
+  try {
+    const cache = createTranslationCache({ localesDir, defaultLanguage: "en" });
+    const result = await cache.get("en");
+
+    assertEquals(result?.data, {
+      "common.title": "Title",
+      "common.actions.save": "Save",
+      "features.userSettings.form.name": "Name",
+    });
+    assertEquals(result?.fallbackKeys.size, 0);
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("createTranslationCache - reuses loaded translations", async () => {
+  const localesDir = await createLocales({ "en/common.json": { title: "Title" } });
+
+  try {
+    const cache = createTranslationCache({ localesDir, defaultLanguage: "en" });
+    const first = await cache.get("en");
+
+    await Deno.writeTextFile(`${localesDir}/en/common.json`, JSON.stringify({ title: "Changed" }));
+    const second = await cache.get("en");
+
+    assertEquals(second, first);
+    assertEquals(second?.data["common.title"], "Title");
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("createTranslationCache - invalidate re-reads locale files", async () => {
+  const localesDir = await createLocales({ "en/common.json": { title: "Title" } });
+
+  try {
+    const cache = createTranslationCache({ localesDir, defaultLanguage: "en" });
+    await cache.get("en");
+
+    await Deno.writeTextFile(`${localesDir}/en/common.json`, JSON.stringify({ title: "Changed" }));
+    cache.invalidate("en");
+
+    assertEquals((await cache.get("en"))?.data["common.title"], "Changed");
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("createTranslationCache - invalidate during a load returns fresh data", async () => {
+  const localesDir = await createLocales({ "en/common.json": { title: "Title" } });
+  let release!: () => void;
+  const gate = new Promise<void>((resolve) => release = resolve);
+  let started!: () => void;
+  const loading = new Promise<void>((resolve) => started = resolve);
+
+  try {
+    const cache = createTranslationCache({
+      localesDir,
+      defaultLanguage: "en",
+      loaders: {
+        ".json": async (content) => {
+          started();
+          await gate;
+          return JSON.parse(content);
+        },
+      },
+    });
+    const pending = cache.get("en");
+    await loading;
+
+    await Deno.writeTextFile(`${localesDir}/en/common.json`, JSON.stringify({ title: "Changed" }));
+    cache.invalidate("en");
+    release();
+
+    assertEquals((await pending)?.data["common.title"], "Changed");
+    assertEquals((await cache.get("en"))?.data["common.title"], "Changed");
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("createTranslationCache - merges default language and tracks fallback keys", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { hello: "Hello", bye: "Bye" },
+    "es/common.json": { hello: "Hola" },
+  });
+
+  try {
+    const cache = createTranslationCache({ localesDir, defaultLanguage: "en", fallback: true });
+    const result = await cache.get("es");
+
+    assertEquals(result?.data, { "common.hello": "Hola", "common.bye": "Bye" });
+    assertEquals([...result!.fallbackKeys], [["common.bye", "en"]]);
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("createTranslationCache - invalidating default language refreshes fallbacks", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { bye: "Bye" },
+    "es/common.json": {},
+  });
+
+  try {
+    const cache = createTranslationCache({ localesDir, defaultLanguage: "en", fallback: true });
+    await cache.get("es");
+
+    await Deno.writeTextFile(`${localesDir}/en/common.json`, JSON.stringify({ bye: "Goodbye" }));
+    cache.invalidate("en");
+
+    assertEquals((await cache.get("es"))?.data["common.bye"], "Goodbye");
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("createTranslationCache - returns null when locales directory is missing", async () => {
+  const cache = createTranslationCache({
+    localesDir: "./does-not-exist",
+    defaultLanguage: "en",
+  });
+
+  assertEquals(await cache.get("en"), null);
+});
+
+Deno.test("createTranslationCache - walks the fallback chain key by key", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { hello: "Hello", bye: "Bye", thanks: "Thanks" },
+    "pt/common.json": { hello: "Olá", bye: "Tchau" },
+    "pt-BR/common.json": { hello: "Oi" },
+  });
+
+  try {
+    const cache = createTranslationCache({
+      localesDir,
+      defaultLanguage: "en",
+      fallback: true,
+      fallbackChain: (locale) => locale === "pt-BR" ? ["pt", "en"] : ["en"],
+    });
+    const result = await cache.get("pt-BR");
+
+    assertEquals(result?.data, {
+      "common.hello": "Oi",
+      "common.bye": "Tchau",
+      "common.thanks": "Thanks",
+    });
+    assertEquals(
+      Object.fromEntries(result!.fallbackKeys),
+      { "common.bye": "pt", "common.thanks": "en" },
+    );
+
+    // Invalidating a locale in the chain refreshes the locales that fall back to it
+    await Deno.writeTextFile(`${localesDir}/pt/common.json`, JSON.stringify({ bye: "Adeus" }));
+    cache.invalidate("pt");
+    assertEquals((await cache.get("pt-BR"))?.data["common.bye"], "Adeus");
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
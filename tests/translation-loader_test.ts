@@ -0,0 +1,109 @@
+import { assertEquals, assertRejects, assertStringIncludes } from "jsr:@std/assert@^1.0.0";
+import { flattenObject, loadLocale } from "../src/translation-loader.ts";
+import { TranslationFileError } from "../src/file-diagnostics.ts";
+import { createTranslationCache } from "../src/translation-cache.ts";
+import { createLocales } from "./fixtures.ts";
+
+async function captureWarnings(fn: () => Promise<unknown>): Promise<string[]> {
+  const warnings: string[] = [];
+  const warn = console.warn;
+  console.warn = (message: string) => warnings.push(message);
+  try {
+    await fn();
+  } finally {
+    console.warn = warn;
+  }
+  return warnings;
+}
+
+Deno.test("loadLocale - warns about keys defined in two files", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { title: "Title", actions: { save: "Save (common.json)" } },
+    "en/common/actions.json": { save: "Save" },
+  });
+
+  try {
+    let catalog = new Map();
+    const warnings = await captureWarnings(async () => {
+      catalog = await loadLocale(localesDir, "en");
+    });
+
+    assertEquals(warnings.length, 1);
+    assertStringIncludes(warnings[0], "common/actions.json");
+    assertStringIncludes(warnings[0], 'Key "common.actions.save" is also defined in');
+    assertStringIncludes(warnings[0], "common.json");
+    // The dedicated file wins
+    assertEquals([...catalog.keys()], ["common", "common.actions"]);
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("loadLocale - warns about files with the same namespace", async () => {
+  const localesDir = await createLocales({
+    "en/user-settings.json": { title: "Dash" },
+    "en/user_settings.json": { title: "Underscore" },
+  });
+
+  try {
+    let catalog = new Map();
+    const warnings = await captureWarnings(async () => {
+      catalog = await loadLocale(localesDir, "en");
+    });
+
+    assertEquals(warnings.length, 1);
+    assertStringIncludes(warnings[0], 'Namespace "userSettings" is also defined by');
+    assertStringIncludes(warnings[0], "user-settings.json");
+    assertStringIncludes(warnings[0], "user_settings.json");
+    assertEquals(catalog.get("userSettings")?.data, { "userSettings.title": "Underscore" });
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("loadLocale - collisions are errors in strict mode", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { actions: { save: "Save" } },
+    "en/common/actions.json": { save: "Save" },
+  });
+
+  try {
+    const error = await assertRejects(
+      () => loadLocale(localesDir, "en", { strict: true }),
+      TranslationFileError,
+    );
+    assertEquals(error.issues.length, 1);
+    assertStringIncludes(error.issues[0].message, 'Key "common.actions.save"');
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("createTranslationCache - exposes the origin of every key", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { title: "Title", subtitle: "Subtitle" },
+    "es/common/actions.json": { save: "Guardar" },
+    "es/common.json": { title: "Título" },
+  });
+
+  try {
+    const cache = createTranslationCache({ localesDir, defaultLanguage: "en", fallback: true });
+    const origins = (await cache.get("es"))!.origins;
+
+    assertEquals(origins.get("common.title"), `${localesDir}/es/common.json`);
+    assertEquals(origins.get("common.subtitle"), `${localesDir}/en/common.json`);
+    assertEquals(origins.get("common.actions.save"), `${localesDir}/es/common/actions.json`);
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("flattenObject - keeps arrays, numbers and booleans", () => {
+  assertEquals(
+    flattenObject(
+      { steps: ["One", "Two"], limits: { max: 5, beta: true }, empty: null },
+      "common.",
+    ),
+    { "common.steps": ["One", "Two"], "common.limits.max": 5, "common.limits.beta": true },
+  );
+});
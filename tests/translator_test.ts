@@ -1,4 +1,4 @@
-import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { assertEquals, assertThrows } from "jsr:@std/assert@^1.0.0";
 import { translate } from "../src/translator.ts";
 
 Deno.test("translate - basic key lookup", () => {
@@ -133,7 +133,7 @@ Deno.test("translate - non-fallback key with indicator config", () => {
 
 Deno.test("translate - invalid value type returns empty in production", () => {
   const translationData = {
-    "common.invalid": 123, // Not a string
+    "common.invalid": ["One", "Two"], // Not text, use t.list()
   };
 
   const t = translate(translationData, {
@@ -145,7 +145,7 @@ Deno.test("translate - invalid value type returns empty in production", () => {
 
 Deno.test("translate - invalid value type shows key in development", () => {
   const translationData = {
-    "common.invalid": 123, // Not a string
+    "common.invalid": ["One", "Two"], // Not text, use t.list()
   };
 
   const t = translate(translationData, {
@@ -253,3 +253,144 @@ Deno.test("createNamespacedTranslator - empty key uses namespace itself", () =>
   
   assertEquals(tActions(""), "Actions Menu");
 });
+
+// ========== Interpolation Tests ==========
+
+Deno.test("translate - interpolates params", () => {
+  const t = translate({ "common.greeting": "Hello {name}" });
+
+  assertEquals(t("common.greeting", { name: "Ana" }), "Hello Ana");
+});
+
+Deno.test("translate - defaultValue used for missing keys", () => {
+  const t = translate({}, { isProduction: () => true });
+
+  assertEquals(t("common.newKey", { defaultValue: "Hi {name}", name: "Ana" }), "Hi Ana");
+});
+
+Deno.test("translate - defaultValue ignored when key exists", () => {
+  const t = translate({ "common.hi": "Hola" });
+
+  assertEquals(t("common.hi", { defaultValue: "Hi" }), "Hola");
+});
+
+Deno.test("translate - fallback indicator applied after interpolation", () => {
+  const t = translate({ "common.greeting": "Hello {name}" }, {
+    defaultLocale: "en",
+    fallbackKeys: new Set(["common.greeting"]),
+    showFallbackIndicator: true,
+    fallbackIndicatorFormat: (text, locale) => `${text} [${locale}]`,
+    isProduction: () => true,
+  });
+
+  assertEquals(t("common.greeting", { name: "Ana" }), "Hello Ana [en]");
+});
+
+Deno.test("createNamespacedTranslator - passes params through", () => {
+  const t = translate({ "common.states.saved": "Saved {name}" });
+  const tStates = createNamespacedTranslator(t, "common.states");
+
+  assertEquals(tStates("saved", { name: "report" }), "Saved report");
+});
+
+Deno.test("translate - fallback indicator shows the locale the value came from", () => {
+  const t = translate({ "common.bye": "Tchau" }, {
+    locale: "pt-BR",
+    defaultLocale: "en",
+    fallbackKeys: new Map([["common.bye", "pt"]]),
+    showFallbackIndicator: true,
+    fallbackIndicatorFormat: (text, locale) => `${text} [${locale}]`,
+    isProduction: () => true,
+  });
+
+  assertEquals(t("common.bye"), "Tchau [pt]");
+});
+
+// ========== Structured Value Tests ==========
+
+Deno.test("translate - returns numbers and booleans as text", () => {
+  const t = translate({ "limits.maxFiles": 5, "features.beta": false });
+
+  assertEquals(t("limits.maxFiles"), "5");
+  assertEquals(t("features.beta"), "false");
+});
+
+Deno.test("translate.list - interpolates every string item", () => {
+  const t = translate({
+    "onboarding.steps": ["Welcome {name}", "Verify your email"],
+    "onboarding.options": [{ label: "Hi {name}", value: 1 }],
+  });
+
+  assertEquals(t.list("onboarding.steps", { name: "Ana" }), ["Welcome Ana", "Verify your email"]);
+  assertEquals(t.list("onboarding.options", { name: "Ana" }), [{ label: "Hi Ana", value: 1 }]);
+  assertEquals(t.list("onboarding.missing"), []);
+});
+
+Deno.test("translate.raw - rebuilds subtrees with fallback indicators per key", () => {
+  const t = translate({
+    "common.actions.save": "Save",
+    "common.actions.cancel": "Cancel",
+    "common.actions.menu.open": "Open",
+    "common.title": "Title",
+  }, {
+    defaultLocale: "en",
+    fallbackKeys: new Set(["common.actions.cancel"]),
+    showFallbackIndicator: true,
+    fallbackIndicatorFormat: (text, locale) => `${text} [${locale}]`,
+    isProduction: () => true,
+  });
+
+  assertEquals(t.raw("common.actions"), {
+    save: "Save",
+    cancel: "Cancel [en]",
+    menu: { open: "Open" },
+  });
+  assertEquals(t.raw("common.title"), "Title");
+  assertEquals(t.raw("common.missing"), undefined);
+});
+
+Deno.test("translate.raw - keeps deeper keys when a key is also a prefix", () => {
+  const options = { isProduction: () => true };
+  const leafFirst = translate({
+    "common.actions": "Actions",
+    "common.actions.save": "Save",
+  }, options);
+  const leafLast = translate({
+    "common.actions.save": "Save",
+    "common.actions": "Actions",
+  }, options);
+
+  assertEquals(leafFirst.raw("common"), { actions: { save: "Save" } });
+  assertEquals(leafLast.raw("common"), { actions: { save: "Save" } });
+  assertEquals(leafFirst.raw("common.actions"), "Actions");
+});
+
+Deno.test("createNamespacedTranslator - accepts plain translation functions", () => {
+  const tCommon = createNamespacedTranslator((key: string) => `<${key}>`, "common");
+
+  assertEquals(tCommon("save"), "<common.save>");
+  assertThrows(
+    () => tCommon.list("steps"),
+    TypeError,
+    'The translator of namespace "common" has no list() method',
+  );
+});
+
+Deno.test("createNamespacedTranslator - prefixes list and raw keys", () => {
+  const t = translate({ "common.steps": ["One", "Two"], "common.actions.save": "Save" });
+  const tCommon = createNamespacedTranslator(t, "common");
+
+  assertEquals(tCommon.list("steps"), ["One", "Two"]);
+  assertEquals(tCommon.raw("actions"), { save: "Save" });
+});
+
+Deno.test("translate - reports missing keys to onMissingKey outside production", () => {
+  const missing: string[] = [];
+  const onMissingKey = (key: string) => missing.push(key);
+
+  translate({}, { onMissingKey })("common.missing");
+  translate({}, { onMissingKey }).list("common.steps");
+  translate({}, { onMissingKey, isProduction: () => true })("common.hidden");
+
+  assertEquals(missing, ["common.missing", "common.steps"]);
+});
@@ -0,0 +1,117 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert@^1.0.0";
+import { generateTranslationTypes, writeTranslationTypes } from "../src/typegen.ts";
+import {
+  createNamespacedTranslator,
+  translate,
+  type TranslateFunction,
+} from "../src/translator.ts";
+import { i18n } from "../src/plugin.ts";
+import type { TranslationState } from "../src/types.ts";
+import { createLocales } from "./fixtures.ts";
+
+Deno.test("generateTranslationTypes - declares every key of the default locale", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": { title: "Title", greeting: "Hello {name}" },
+    "en/features/user-settings.json": { form: { name: "Name" } },
+    "es/common.json": { onlyInSpanish: "Hola" },
+  });
+
+  try {
+    const types = await generateTranslationTypes({ localesDir, defaultLanguage: "en" });
+
+    assertStringIncludes(
+      types,
+      'export type TranslationKey =\n  | "common.greeting"\n  | "common.title"\n' +
+        '  | "features.userSettings.form.name";',
+    );
+    assertEquals(types.includes("onlyInSpanish"), false);
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("generateTranslationTypes - infers param types", async () => {
+  const localesDir = await createLocales({
+    "en/common.json": {
+      title: "Title",
+      greeting: "Hello {name}, {{count}} new",
+      files: "{count, plural, one {# file} other {# files}} by {gender, select, other {{user}}}",
+    },
+  });
+
+  try {
+    const types = await generateTranslationTypes({ localesDir, defaultLanguage: "en" });
+
+    assertStringIncludes(types, '"common.title": Record<never, never>;');
+    assertStringIncludes(
+      types,
+      '"common.greeting": { "name": string | number; "count": string | number };',
+    );
+    assertStringIncludes(
+      types,
+      '"common.files": { "count": number; "gender": string; "user": string | number };',
+    );
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("writeTranslationTypes - only writes when the content changed", async () => {
+  const localesDir = await createLocales({ "en/common.json": { title: "Title" } });
+  const outFile = `${localesDir}/i18n.d.ts`;
+
+  try {
+    const options = { localesDir, defaultLanguage: "en", outFile };
+    assertEquals(await writeTranslationTypes(options), true);
+    assertEquals(await writeTranslationTypes(options), false);
+    assertStringIncludes(await Deno.readTextFile(outFile), '| "common.title"');
+  } finally {
+    await Deno.remove(localesDir, { recursive: true });
+  }
+});
+
+Deno.test("createNamespacedTranslator - narrows typed keys", () => {
+  type Key = "features.nav.title" | "features.nav.save" | "common.title";
+  const t = translate({ "features.nav.title": "Nav" }) as TranslateFunction<Key>;
+  const tNav = createNamespacedTranslator(t, "features.nav");
+
+  assertEquals(tNav("title"), "Nav");
+  assertEquals(tNav.raw("title"), "Nav");
+  // @ts-expect-error - key outside the namespace
+  tNav("common.title");
+  // @ts-expect-error - prefix outside the key union
+  t.raw("features.other");
+});
+
+Deno.test("TranslateFunction - type-checks params with a params map", () => {
+  type Key = "common.greeting" | "common.title" | "features.nav.welcome";
+  interface KeyParams {
+    "common.greeting": { name: string | number };
+    "common.title": Record<never, never>;
+    "features.nav.welcome": { count: number };
+  }
+  const t = translate({
+    "common.greeting": "Hello {name}",
+    "common.title": "Title",
+    "features.nav.welcome": "{count} new",
+  }, { isProduction: () => true }) as TranslateFunction<Key, KeyParams>;
+  const tNav = createNamespacedTranslator(t, "features.nav");
+
+  assertEquals(t("common.greeting", { name: "Ana" }), "Hello Ana");
+  assertEquals(t("common.title"), "Title");
+  assertEquals(tNav("welcome", { count: 2 }), "2 new");
+  // @ts-expect-error - missing param
+  t("common.greeting");
+  // @ts-expect-error - misspelled param
+  t("common.greeting", { nme: "Ana" });
+  // @ts-expect-error - wrong param type
+  tNav("welcome", { count: "2" });
+
+  // States typed with the params map are accepted by the middleware
+  const middleware = i18n<TranslationState<Key, KeyParams>>({
+    languages: ["en"],
+    defaultLanguage: "en",
+    localesDir: "./locales",
+  });
+  middleware.close();
+});